@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "Article" ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english'::regconfig, coalesce("title", '')), 'A') ||
+    setweight(to_tsvector('english'::regconfig, coalesce("excerpt", '')), 'B') ||
+    setweight(to_tsvector('english'::regconfig, coalesce("content", '')), 'C')
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "Article_searchVector_idx" ON "Article" USING GIN ("searchVector");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Article" ADD COLUMN "deletedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Article_deletedAt_idx" ON "Article"("deletedAt");
@@ -0,0 +1,10 @@
+-- CreateEnum
+CREATE TYPE "ArticleStatus" AS ENUM ('DRAFT', 'IN_REVIEW', 'SCHEDULED', 'PUBLISHED', 'ARCHIVED');
+
+-- AlterTable: existing articles are all live, new ones start as drafts
+ALTER TABLE "Article" ADD COLUMN "status" "ArticleStatus" NOT NULL DEFAULT 'PUBLISHED',
+ADD COLUMN "publishAt" TIMESTAMP(3);
+ALTER TABLE "Article" ALTER COLUMN "status" SET DEFAULT 'DRAFT';
+
+-- CreateIndex
+CREATE INDEX "Article_status_publishAt_idx" ON "Article"("status", "publishAt");
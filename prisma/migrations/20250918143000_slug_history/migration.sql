@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "SlugHistory" (
+    "id" TEXT NOT NULL,
+    "slug" TEXT NOT NULL,
+    "articleId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SlugHistory_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SlugHistory_slug_key" ON "SlugHistory"("slug");
+
+-- CreateIndex
+CREATE INDEX "SlugHistory_articleId_idx" ON "SlugHistory"("articleId");
+
+-- AddForeignKey
+ALTER TABLE "SlugHistory" ADD CONSTRAINT "SlugHistory_articleId_fkey" FOREIGN KEY ("articleId") REFERENCES "Article"("id") ON DELETE CASCADE ON UPDATE CASCADE;
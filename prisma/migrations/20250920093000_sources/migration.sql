@@ -0,0 +1,54 @@
+-- CreateEnum
+CREATE TYPE "SourceBias" AS ENUM ('LEFT', 'LEAN_LEFT', 'CENTER', 'LEAN_RIGHT', 'RIGHT');
+
+-- AlterTable
+ALTER TABLE "Article" ADD COLUMN "sourceId" TEXT;
+
+-- CreateTable
+CREATE TABLE "Source" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "slug" TEXT NOT NULL,
+    "domain" TEXT,
+    "aliases" TEXT[],
+    "country" TEXT,
+    "language" TEXT,
+    "bias" "SourceBias",
+    "reliability" DOUBLE PRECISION,
+    "logoUrl" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Source_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Source_slug_key" ON "Source"("slug");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Source_domain_key" ON "Source"("domain");
+
+-- CreateIndex
+CREATE INDEX "Article_sourceId_idx" ON "Article"("sourceId");
+
+-- AddForeignKey
+ALTER TABLE "Article" ADD CONSTRAINT "Article_sourceId_fkey" FOREIGN KEY ("sourceId") REFERENCES "Source"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Register every existing source name, folding spellings that slug the same
+-- ("BBC News", "bbc news"), and link the articles to it. Metadata for well
+-- known publishers is filled in by the next seed or import.
+INSERT INTO "Source" ("id", "name", "slug", "aliases", "updatedAt")
+SELECT DISTINCT ON ("slug") gen_random_uuid()::text, "name", "slug", ARRAY[]::TEXT[], CURRENT_TIMESTAMP
+FROM (
+    SELECT btrim("source") AS "name",
+           btrim(regexp_replace(lower("source"), '[^a-z0-9]+', '-', 'g'), '-') AS "slug"
+    FROM "Article"
+    WHERE "source" IS NOT NULL
+) s
+WHERE "slug" <> ''
+ORDER BY "slug", "name";
+
+UPDATE "Article" a
+SET "sourceId" = s."id"
+FROM "Source" s
+WHERE s."slug" = btrim(regexp_replace(lower(a."source"), '[^a-z0-9]+', '-', 'g'), '-');
@@ -0,0 +1,8 @@
+-- AlterTable: existing categories become top-level categories
+ALTER TABLE "Category" ADD COLUMN "parentId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Category_parentId_idx" ON "Category"("parentId");
+
+-- AddForeignKey
+ALTER TABLE "Category" ADD CONSTRAINT "Category_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "Category"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,51 @@
+-- AlterTable
+ALTER TABLE "Tag" ADD COLUMN "normalizedName" TEXT;
+
+-- Same key as normalizeTagName() in src/utils/tagNames.ts
+UPDATE "Tag" SET "normalizedName" = lower(btrim(regexp_replace(normalize("name", NFKC), '\s+', ' ', 'g')));
+
+-- Tags that only differ in case or spacing ("AI", "ai") are folded into the
+-- oldest of them before the lookup key becomes unique
+CREATE TEMP TABLE "TagMerge" AS
+SELECT t."id" AS "sourceId", k."id" AS "targetId"
+FROM "Tag" t
+JOIN LATERAL (
+    SELECT k."id" FROM "Tag" k
+    WHERE k."normalizedName" = t."normalizedName"
+    ORDER BY k."createdAt", k."id"
+    LIMIT 1
+) k ON k."id" <> t."id";
+
+INSERT INTO "_ArticleToTag" ("A", "B")
+SELECT at."A", m."targetId"
+FROM "_ArticleToTag" at
+JOIN "TagMerge" m ON m."sourceId" = at."B"
+ON CONFLICT DO NOTHING;
+
+DELETE FROM "Tag" WHERE "id" IN (SELECT "sourceId" FROM "TagMerge");
+
+DROP TABLE "TagMerge";
+
+ALTER TABLE "Tag" ALTER COLUMN "normalizedName" SET NOT NULL;
+
+-- CreateTable
+CREATE TABLE "TagAlias" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "tagId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TagAlias_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Tag_normalizedName_key" ON "Tag"("normalizedName");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TagAlias_name_key" ON "TagAlias"("name");
+
+-- CreateIndex
+CREATE INDEX "TagAlias_tagId_idx" ON "TagAlias"("tagId");
+
+-- AddForeignKey
+ALTER TABLE "TagAlias" ADD CONSTRAINT "TagAlias_tagId_fkey" FOREIGN KEY ("tagId") REFERENCES "Tag"("id") ON DELETE CASCADE ON UPDATE CASCADE;
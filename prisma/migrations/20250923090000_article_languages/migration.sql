@@ -0,0 +1,51 @@
+-- AlterTable
+ALTER TABLE "Article" ADD COLUMN "language" TEXT,
+ADD COLUMN "translationGroup" TEXT;
+
+-- Text search configuration for an article language (ISO 639-1 code). Mirrors
+-- SEARCH_CONFIGS in src/utils/language.ts; undetected languages keep the
+-- English configuration used before, other languages get no stemming.
+CREATE FUNCTION article_search_config(language TEXT) RETURNS regconfig AS $$
+  SELECT CASE
+    WHEN language IS NULL THEN 'english'::regconfig
+    WHEN language = 'ar' THEN 'arabic'::regconfig
+    WHEN language = 'da' THEN 'danish'::regconfig
+    WHEN language = 'de' THEN 'german'::regconfig
+    WHEN language = 'el' THEN 'greek'::regconfig
+    WHEN language = 'en' THEN 'english'::regconfig
+    WHEN language = 'es' THEN 'spanish'::regconfig
+    WHEN language = 'fi' THEN 'finnish'::regconfig
+    WHEN language = 'fr' THEN 'french'::regconfig
+    WHEN language = 'hu' THEN 'hungarian'::regconfig
+    WHEN language = 'id' THEN 'indonesian'::regconfig
+    WHEN language = 'it' THEN 'italian'::regconfig
+    WHEN language = 'nl' THEN 'dutch'::regconfig
+    WHEN language = 'no' THEN 'norwegian'::regconfig
+    WHEN language = 'pt' THEN 'portuguese'::regconfig
+    WHEN language = 'ro' THEN 'romanian'::regconfig
+    WHEN language = 'ru' THEN 'russian'::regconfig
+    WHEN language = 'sv' THEN 'swedish'::regconfig
+    WHEN language = 'tr' THEN 'turkish'::regconfig
+    ELSE 'simple'::regconfig
+  END
+$$ LANGUAGE SQL IMMUTABLE;
+
+-- Rebuild the search vector with the article's own configuration
+DROP INDEX "Article_searchVector_idx";
+
+ALTER TABLE "Article" DROP COLUMN "searchVector";
+
+ALTER TABLE "Article" ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector(article_search_config("language"), coalesce("title", '')), 'A') ||
+    setweight(to_tsvector(article_search_config("language"), coalesce("excerpt", '')), 'B') ||
+    setweight(to_tsvector(article_search_config("language"), coalesce("content", '')), 'C')
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "Article_searchVector_idx" ON "Article" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "Article_language_idx" ON "Article"("language");
+
+-- CreateIndex
+CREATE INDEX "Article_translationGroup_idx" ON "Article"("translationGroup");
@@ -0,0 +1,29 @@
+-- CreateEnum
+CREATE TYPE "MediaType" AS ENUM ('IMAGE', 'VIDEO', 'EMBED');
+
+-- CreateTable
+CREATE TABLE "Media" (
+    "id" TEXT NOT NULL,
+    "articleId" TEXT NOT NULL,
+    "type" "MediaType" NOT NULL,
+    "url" TEXT NOT NULL,
+    "storageKey" TEXT,
+    "mimeType" TEXT,
+    "caption" TEXT,
+    "credit" TEXT,
+    "altText" TEXT,
+    "width" INTEGER,
+    "height" INTEGER,
+    "position" INTEGER NOT NULL,
+    "isLead" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Media_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Media_articleId_position_idx" ON "Media"("articleId", "position");
+
+-- AddForeignKey
+ALTER TABLE "Media" ADD CONSTRAINT "Media_articleId_fkey" FOREIGN KEY ("articleId") REFERENCES "Article"("id") ON DELETE CASCADE ON UPDATE CASCADE;
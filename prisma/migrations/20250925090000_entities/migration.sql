@@ -0,0 +1,37 @@
+-- CreateEnum
+CREATE TYPE "EntityType" AS ENUM ('PERSON', 'ORGANIZATION', 'PLACE');
+
+-- CreateTable
+CREATE TABLE "Entity" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "normalizedName" TEXT NOT NULL,
+    "type" "EntityType" NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Entity_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ArticleEntity" (
+    "articleId" TEXT NOT NULL,
+    "entityId" TEXT NOT NULL,
+    "mentions" INTEGER NOT NULL,
+
+    CONSTRAINT "ArticleEntity_pkey" PRIMARY KEY ("articleId","entityId")
+);
+
+-- CreateIndex
+CREATE INDEX "Entity_normalizedName_idx" ON "Entity"("normalizedName");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Entity_type_normalizedName_key" ON "Entity"("type", "normalizedName");
+
+-- CreateIndex
+CREATE INDEX "ArticleEntity_entityId_idx" ON "ArticleEntity"("entityId");
+
+-- AddForeignKey
+ALTER TABLE "ArticleEntity" ADD CONSTRAINT "ArticleEntity_articleId_fkey" FOREIGN KEY ("articleId") REFERENCES "Article"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ArticleEntity" ADD CONSTRAINT "ArticleEntity_entityId_fkey" FOREIGN KEY ("entityId") REFERENCES "Entity"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,19 @@
+-- CreateEnum
+CREATE TYPE "TrendingWindow" AS ENUM ('HOUR', 'DAY', 'WEEK');
+
+-- CreateTable
+CREATE TABLE "TrendingScore" (
+    "window" "TrendingWindow" NOT NULL,
+    "articleId" TEXT NOT NULL,
+    "score" DOUBLE PRECISION NOT NULL,
+    "views" INTEGER NOT NULL,
+    "computedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TrendingScore_pkey" PRIMARY KEY ("window","articleId")
+);
+
+-- CreateIndex
+CREATE INDEX "TrendingScore_window_score_idx" ON "TrendingScore"("window", "score");
+
+-- AddForeignKey
+ALTER TABLE "TrendingScore" ADD CONSTRAINT "TrendingScore_articleId_fkey" FOREIGN KEY ("articleId") REFERENCES "Article"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -1,7 +1,9 @@
-import type { Request } from 'express';
+import type { IncomingHttpHeaders, IncomingMessage } from 'http';
 import DataLoader from 'dataloader';
+import { ArticleEntity, Author, Entity, Media, Source, TrendingWindow } from '@prisma/client';
 import { prisma } from './lib/prisma';
-import { MCPServer } from './services/nlQueryService';
+import type { MCPServer } from './services/nlQueryService';
+import { authenticate, Viewer } from './services/authService';
 
 // DataLoaders for N+1 query prevention
 const createCategoryLoader = () =>
@@ -12,6 +14,14 @@ const createCategoryLoader = () =>
     return ids.map((id) => categories.find((cat) => cat.id === id));
   });
 
+const createSourceLoader = () =>
+  new DataLoader(async (ids: readonly string[]) => {
+    const sources = await prisma.source.findMany({
+      where: { id: { in: [...ids] } },
+    });
+    return ids.map((id) => sources.find((source) => source.id === id) ?? null);
+  });
+
 const createTagsLoader = () =>
   new DataLoader(async (articleIds: readonly string[]) => {
     const articles = await prisma.article.findMany({
@@ -21,20 +31,100 @@ const createTagsLoader = () =>
     return articleIds.map((id) => articles.find((a) => a.id === id)?.tags || []);
   });
 
+const createAuthorsLoader = () =>
+  new DataLoader(async (articleIds: readonly string[]) => {
+    const articles = await prisma.article.findMany({
+      where: { id: { in: [...articleIds] } },
+      include: { authors: true },
+    });
+    return articleIds.map((id) => articles.find((a) => a.id === id)?.authors || []);
+  });
+
+const createMediaLoader = () =>
+  new DataLoader(async (articleIds: readonly string[]) => {
+    const media = await prisma.media.findMany({
+      where: { articleId: { in: [...articleIds] } },
+      orderBy: { position: 'asc' },
+    });
+    return articleIds.map((id) => media.filter((m) => m.articleId === id));
+  });
+
+// Entity mentions of each article, most mentioned first
+const createEntitiesLoader = () =>
+  new DataLoader(async (articleIds: readonly string[]) => {
+    const mentions = await prisma.articleEntity.findMany({
+      where: { articleId: { in: [...articleIds] } },
+      include: { entity: true },
+      orderBy: { mentions: 'desc' },
+    });
+    return articleIds.map((id) => mentions.filter((m) => m.articleId === id));
+  });
+
+// Trending scores keyed by `<window>:<articleId>`; null when not trending
+const createTrendingScoreLoader = () =>
+  new DataLoader(async (keys: readonly string[]) => {
+    const pairs = keys.map((key) => key.split(':') as [TrendingWindow, string]);
+    const scores = await prisma.trendingScore.findMany({
+      where: { OR: pairs.map(([window, articleId]) => ({ window, articleId })) },
+    });
+    return pairs.map(
+      ([window, articleId]) =>
+        scores.find((s) => s.window === window && s.articleId === articleId)?.score ?? null
+    );
+  });
+
 export type Context = {
   prisma: typeof prisma;
   mcp: MCPServer;
-  req: Request;
+  req: IncomingMessage; // express request over HTTP, upgrade request over WebSocket
+  viewer: Viewer | null; // null for anonymous callers
   categoryLoader: DataLoader<string, any>;
+  sourceLoader: DataLoader<string, Source | null>;
   tagsLoader: DataLoader<string, any>;
+  authorsLoader: DataLoader<string, Author[]>;
+  mediaLoader: DataLoader<string, Media[]>;
+  entitiesLoader: DataLoader<string, (ArticleEntity & { entity: Entity })[]>;
+  trendingScoreLoader: DataLoader<string, number | null>;
 };
 
+/**
+ * Fresh DataLoaders for one operation, so batching and caching never leak
+ * between requests. Also used for queries the MCP server runs itself.
+ */
+export function createLoaders() {
+  return {
+    categoryLoader: createCategoryLoader(),
+    sourceLoader: createSourceLoader(),
+    tagsLoader: createTagsLoader(),
+    authorsLoader: createAuthorsLoader(),
+    mediaLoader: createMediaLoader(),
+    entitiesLoader: createEntitiesLoader(),
+    trendingScoreLoader: createTrendingScoreLoader(),
+  };
+}
+
+// WebSocket clients cannot set headers, so credentials may also arrive as
+// graphql-ws connection params ({ authorization } or { 'x-api-key' })
+function authHeaders(req: IncomingMessage, connectionParams?: Record<string, unknown>) {
+  const headers: IncomingHttpHeaders = { ...req.headers };
+  for (const [key, value] of Object.entries(connectionParams ?? {})) {
+    if (typeof value === 'string') headers[key.toLowerCase()] = value;
+  }
+  return headers;
+}
+
 export function createContextFactory(deps: { mcp: MCPServer }) {
-  return async ({ req }: { req: Request }): Promise<Context> => ({
+  return async ({
+    req,
+    connectionParams,
+  }: {
+    req: IncomingMessage;
+    connectionParams?: Record<string, unknown>;
+  }): Promise<Context> => ({
     prisma,
     mcp: deps.mcp,
     req,
-    categoryLoader: createCategoryLoader(),
-    tagsLoader: createTagsLoader(),
+    viewer: await authenticate(authHeaders(req, connectionParams)),
+    ...createLoaders(),
   });
 }
@@ -0,0 +1,69 @@
+// src/graphql/directives.ts
+import { defaultFieldResolver, GraphQLSchema } from 'graphql';
+import { getDirective, MapperKind, mapSchema } from '@graphql-tools/utils';
+import { forbidden, hasRole, Role, unauthenticated } from '../services/authService';
+import { cached } from '../lib/cache';
+import type { Context } from '../context';
+
+/**
+ * Enforce `@requiresRole(role: ...)` on fields by wrapping their resolvers.
+ * Anonymous callers get UNAUTHENTICATED, callers below the role FORBIDDEN.
+ */
+export function requiresRoleDirectiveTransformer(schema: GraphQLSchema) {
+  return mapSchema(schema, {
+    [MapperKind.OBJECT_FIELD]: (fieldConfig) => {
+      const directive = getDirective(schema, fieldConfig, 'requiresRole')?.[0];
+      if (!directive) return fieldConfig;
+
+      const role = directive.role as Role;
+      const { resolve = defaultFieldResolver } = fieldConfig;
+
+      const guard = (context: Pick<Context, 'viewer'> | undefined) => {
+        if (!context?.viewer) throw unauthenticated();
+        if (!hasRole(context.viewer, role)) throw forbidden(role);
+      };
+
+      fieldConfig.resolve = (source, args, context, info) => {
+        guard(context);
+        return resolve(source, args, context, info);
+      };
+      if (fieldConfig.subscribe) {
+        const { subscribe } = fieldConfig;
+        fieldConfig.subscribe = (source, args, context, info) => {
+          guard(context);
+          return subscribe(source, args, context, info);
+        };
+      }
+
+      return fieldConfig;
+    },
+  });
+}
+
+/**
+ * Cache resolver results for fields with `@cacheControl(maxAge: ...)`. Keys
+ * combine the field, the parent's id and the arguments; PRIVATE fields and
+ * fields whose parent has no id are never shared.
+ */
+export function cacheControlDirectiveTransformer(schema: GraphQLSchema) {
+  return mapSchema(schema, {
+    [MapperKind.OBJECT_FIELD]: (fieldConfig, fieldName, typeName) => {
+      const directive = getDirective(schema, fieldConfig, 'cacheControl')?.[0];
+      if (!directive?.maxAge || directive.scope === 'PRIVATE') return fieldConfig;
+
+      const maxAge: number = directive.maxAge;
+      const isRoot = typeName === schema.getQueryType()?.name;
+      const { resolve = defaultFieldResolver } = fieldConfig;
+
+      fieldConfig.resolve = (source, args, context, info) => {
+        const parentId = isRoot ? '' : source?.id;
+        if (parentId == null) return resolve(source, args, context, info);
+
+        const key = `${typeName}.${fieldName}:${parentId}:${JSON.stringify(args)}`;
+        return cached(key, maxAge, async () => resolve(source, args, context, info));
+      };
+
+      return fieldConfig;
+    },
+  });
+}
@@ -0,0 +1,120 @@
+// src/graphql/persistedQueries.ts
+import { createHash } from 'crypto';
+import { existsSync, readFileSync } from 'fs';
+import { resolve } from 'path';
+import type { ApolloServerPlugin } from '@apollo/server';
+import { GraphQLError } from 'graphql';
+
+export interface PersistedQueryOperation {
+  id: string; // sha256 of body, the same hash clients send for APQ
+  name: string;
+  type: 'query' | 'mutation' | 'subscription';
+  body: string;
+}
+
+// Layout follows Apollo's persisted query manifest format
+export interface PersistedQueryManifest {
+  format: 'apollo-persisted-query-manifest';
+  version: 1;
+  operations: PersistedQueryOperation[];
+}
+
+export const DEFAULT_MANIFEST_PATH = 'persisted-queries.json';
+
+export const persistedQueryConfig = {
+  manifestPath: process.env.PERSISTED_QUERIES_MANIFEST || DEFAULT_MANIFEST_PATH,
+  // Only accept operations registered in the manifest
+  strict: process.env.PERSISTED_QUERIES_STRICT === 'true',
+};
+
+export function hashOperation(body: string): string {
+  return createHash('sha256').update(body).digest('hex');
+}
+
+export class PersistedQueryRegistry {
+  private operations = new Map<string, PersistedQueryOperation>();
+
+  constructor(manifest?: PersistedQueryManifest) {
+    for (const operation of manifest?.operations ?? []) {
+      this.operations.set(operation.id, operation);
+    }
+  }
+
+  get size() {
+    return this.operations.size;
+  }
+
+  get(hash: string): PersistedQueryOperation | undefined {
+    return this.operations.get(hash);
+  }
+
+  has(hash: string): boolean {
+    return this.operations.has(hash);
+  }
+
+  allows(query: string): boolean {
+    return this.has(hashOperation(query));
+  }
+}
+
+/**
+ * Load the manifest from disk. A missing file is fine unless strict mode is
+ * on, because then no operation at all could run.
+ */
+export function loadPersistedQueries(config = persistedQueryConfig): PersistedQueryRegistry {
+  const path = resolve(config.manifestPath);
+
+  if (!existsSync(path)) {
+    if (config.strict) {
+      throw new Error(`Persisted query manifest not found at ${path} (strict mode is enabled)`);
+    }
+    return new PersistedQueryRegistry();
+  }
+
+  const manifest = JSON.parse(readFileSync(path, 'utf8')) as PersistedQueryManifest;
+  if (manifest.format !== 'apollo-persisted-query-manifest' || manifest.version !== 1) {
+    throw new Error(`Unsupported persisted query manifest format in ${path}`);
+  }
+
+  for (const operation of manifest.operations) {
+    if (hashOperation(operation.body) !== operation.id) {
+      throw new Error(`Persisted query ${operation.name} does not match its id ${operation.id}`);
+    }
+  }
+
+  return new PersistedQueryRegistry(manifest);
+}
+
+export function operationNotAllowedError() {
+  return new GraphQLError('Operation is not in the persisted query allowlist', {
+    extensions: { code: 'PERSISTED_QUERY_NOT_ALLOWED', http: { status: 400 } },
+  });
+}
+
+/**
+ * Resolve APQ hashes from the manifest so registered operations never need
+ * a registration round-trip, and reject everything else in strict mode.
+ */
+export function persistedQueriesPlugin(
+  registry: PersistedQueryRegistry,
+  strict = persistedQueryConfig.strict
+): ApolloServerPlugin {
+  return {
+    async requestDidStart({ request }) {
+      const hash = request.extensions?.persistedQuery?.sha256Hash;
+      if (typeof hash === 'string' && request.query === undefined) {
+        const operation = registry.get(hash);
+        // Apollo verifies the hash against the body we fill in here
+        if (operation) request.query = operation.body;
+      }
+
+      if (!strict) return;
+
+      return {
+        async didResolveOperation({ queryHash }) {
+          if (!registry.has(queryHash)) throw operationNotAllowedError();
+        },
+      };
+    },
+  };
+}
@@ -0,0 +1,76 @@
+import { makeExecutableSchema } from '@graphql-tools/schema';
+import { parse } from 'graphql';
+import { analyzeQueryCost, queryCostError, queryCostErrorForSource } from './queryCost';
+
+const schema = makeExecutableSchema({
+  typeDefs: /* GraphQL */ `
+    directive @cost(weight: Int, multipliers: [String!], assumedSize: Int) on FIELD_DEFINITION
+
+    type Query {
+      articles(limit: Int, ids: [ID!]): [Article!]!
+        @cost(weight: 2, multipliers: ["limit", "ids"], assumedSize: 50)
+      article(id: ID!): Article
+    }
+
+    type Article {
+      id: ID!
+      title: String!
+      tags: [Tag!]! @cost(weight: 1, assumedSize: 5)
+      related: [Article!]!
+    }
+
+    type Tag {
+      name: String!
+    }
+  `,
+});
+
+function cost(source: string, variables?: Record<string, unknown>) {
+  return analyzeQueryCost(schema, parse(source), null, variables);
+}
+
+describe('analyzeQueryCost', () => {
+  it('multiplies children by the limit argument', () => {
+    // articles: 2 + 10 * (tags: 1 + 5 * 0)
+    expect(cost('{ articles(limit: 10) { title tags { name } } }')).toEqual({ cost: 12, depth: 3 });
+  });
+
+  it('reads multipliers from variables and list lengths', () => {
+    const query = 'query ($limit: Int) { articles(limit: $limit) { related { id } } }';
+    expect(cost(query, { limit: 4 }).cost).toBe(2 + 4 * 1);
+    expect(cost('{ articles(ids: ["a", "b"]) { related { id } } }').cost).toBe(2 + 2 * 1);
+  });
+
+  it('falls back to the assumed size', () => {
+    expect(cost('{ articles { related { id } } }').cost).toBe(2 + 50 * 1);
+  });
+
+  it('counts fragments and unannotated object fields', () => {
+    const query = `
+      { article(id: "a") { ...parts } }
+      fragment parts on Article { related { related { id } } }
+    `;
+    expect(cost(query)).toEqual({ cost: 3, depth: 4 });
+  });
+
+  it('ignores introspection fields', () => {
+    expect(cost('{ __schema { types { name } } }')).toEqual({ cost: 0, depth: 0 });
+  });
+});
+
+describe('queryCostError', () => {
+  it('reports depth and cost over the limits', () => {
+    const limits = { maxDepth: 3, maxCost: 100 };
+    expect(queryCostError({ depth: 3, cost: 100 }, limits)).toBeNull();
+    expect(queryCostError({ depth: 4, cost: 1 }, limits)?.message).toBe(
+      'Query depth 4 exceeds the maximum of 3'
+    );
+    const error = queryCostError({ depth: 1, cost: 101 }, limits);
+    expect(error?.extensions.code).toBe('QUERY_TOO_COMPLEX');
+    expect(error?.extensions.cost).toEqual({ depth: 1, cost: 101, maxDepth: 3, maxCost: 100 });
+  });
+
+  it('leaves unparsable sources to execution', () => {
+    expect(queryCostErrorForSource(schema, '{ articles(')).toBeNull();
+  });
+});
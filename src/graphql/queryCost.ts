@@ -0,0 +1,223 @@
+// src/graphql/queryCost.ts
+import type { ApolloServerPlugin } from '@apollo/server';
+import {
+  DocumentNode,
+  FieldNode,
+  FragmentDefinitionNode,
+  getArgumentValues,
+  getNamedType,
+  GraphQLError,
+  GraphQLField,
+  GraphQLSchema,
+  isCompositeType,
+  isInterfaceType,
+  isObjectType,
+  Kind,
+  OperationDefinitionNode,
+  parse,
+  SelectionSetNode,
+  GraphQLCompositeType,
+} from 'graphql';
+import { getDirective } from '@graphql-tools/utils';
+
+export interface QueryCost {
+  depth: number;
+  cost: number;
+}
+
+export interface QueryCostLimits {
+  maxDepth: number;
+  maxCost: number;
+}
+
+export const queryCostLimits: QueryCostLimits = {
+  maxDepth: Number(process.env.GRAPHQL_MAX_DEPTH) || 10,
+  maxCost: Number(process.env.GRAPHQL_MAX_COST) || 1000,
+};
+
+// Weight of a field without @cost: object fields cost a lookup, scalars are free
+const DEFAULT_COMPOSITE_WEIGHT = 1;
+
+interface FieldCostSettings {
+  weight?: number;
+  multipliers?: string[];
+  assumedSize?: number;
+}
+
+/**
+ * Statically estimate the depth and cost of an operation before it runs.
+ * A field costs its `@cost` weight plus its children's cost times the value
+ * of its first provided multiplier argument (e.g. `limit`, or the length of a
+ * list argument), falling back to `assumedSize` when none is given.
+ */
+export function analyzeQueryCost(
+  schema: GraphQLSchema,
+  document: DocumentNode,
+  operationName?: string | null,
+  variables: Record<string, unknown> = {}
+): QueryCost {
+  const fragments: Record<string, FragmentDefinitionNode> = {};
+  const operations: OperationDefinitionNode[] = [];
+
+  for (const definition of document.definitions) {
+    if (definition.kind === Kind.FRAGMENT_DEFINITION) fragments[definition.name.value] = definition;
+    if (definition.kind === Kind.OPERATION_DEFINITION) operations.push(definition);
+  }
+
+  const operation = operationName
+    ? operations.find((op) => op.name?.value === operationName)
+    : operations[0];
+  if (!operation) return { depth: 0, cost: 0 };
+
+  const rootType = schema.getRootType(operation.operation);
+  if (!rootType) return { depth: 0, cost: 0 };
+
+  const measure = (
+    selectionSet: SelectionSetNode,
+    parentType: GraphQLCompositeType,
+    depth: number
+  ): QueryCost => {
+    let cost = 0;
+    let maxDepth = depth;
+
+    for (const selection of selectionSet.selections) {
+      if (selection.kind === Kind.FIELD) {
+        // Introspection is governed by the `introspection` server option instead
+        if (selection.name.value.startsWith('__')) continue;
+        if (!isObjectType(parentType) && !isInterfaceType(parentType)) continue;
+
+        const field = parentType.getFields()[selection.name.value];
+        if (!field) continue;
+
+        const namedType = getNamedType(field.type);
+        const settings = costSettings(schema, field);
+        const weight =
+          settings.weight ?? (isCompositeType(namedType) ? DEFAULT_COMPOSITE_WEIGHT : 0);
+
+        let children: QueryCost = { cost: 0, depth: depth + 1 };
+        if (selection.selectionSet && isCompositeType(namedType)) {
+          children = measure(selection.selectionSet, namedType, depth + 1);
+        }
+
+        cost += weight + multiplier(field, settings, selection, variables) * children.cost;
+        maxDepth = Math.max(maxDepth, children.depth);
+      } else {
+        const fragment =
+          selection.kind === Kind.FRAGMENT_SPREAD ? fragments[selection.name.value] : selection;
+        if (!fragment) continue;
+
+        const typeName = fragment.typeCondition?.name.value;
+        const fragmentType = typeName ? schema.getType(typeName) : parentType;
+        if (!fragmentType || !isCompositeType(fragmentType)) continue;
+
+        const nested = measure(fragment.selectionSet, fragmentType, depth);
+        cost += nested.cost;
+        maxDepth = Math.max(maxDepth, nested.depth);
+      }
+    }
+
+    return { cost, depth: maxDepth };
+  };
+
+  return measure(operation.selectionSet, rootType, 0);
+}
+
+function costSettings(
+  schema: GraphQLSchema,
+  field: GraphQLField<unknown, unknown>
+): FieldCostSettings {
+  return (getDirective(schema, field, 'cost')?.[0] as FieldCostSettings | undefined) ?? {};
+}
+
+function multiplier(
+  field: GraphQLField<unknown, unknown>,
+  settings: FieldCostSettings,
+  node: FieldNode,
+  variables: Record<string, unknown>
+): number {
+  if (!settings.multipliers?.length) return settings.assumedSize ?? 1;
+
+  let args: Record<string, unknown> = {};
+  try {
+    args = getArgumentValues(field, node, variables);
+  } catch {
+    // Invalid arguments are reported by validation/execution; estimate with defaults
+  }
+
+  for (const name of settings.multipliers) {
+    const value = args[name];
+    if (typeof value === 'number') return Math.max(0, value);
+    if (Array.isArray(value)) return value.length;
+  }
+  return settings.assumedSize ?? 1;
+}
+
+export function queryCostError(result: QueryCost, limits = queryCostLimits): GraphQLError | null {
+  if (result.depth > limits.maxDepth) {
+    const message = `Query depth ${result.depth} exceeds the maximum of ${limits.maxDepth}`;
+    return tooComplex(message, result, limits);
+  }
+  if (result.cost > limits.maxCost) {
+    const message = `Query cost ${result.cost} exceeds the maximum of ${limits.maxCost}`;
+    return tooComplex(message, result, limits);
+  }
+  return null;
+}
+
+/**
+ * Same check for entry points outside Apollo (WebSocket subscriptions, NL
+ * queries). Documents that fail to parse are left for execution to report.
+ */
+export function queryCostErrorForSource(
+  schema: GraphQLSchema,
+  source: string,
+  operationName?: string | null,
+  variables?: Record<string, unknown> | null
+): GraphQLError | null {
+  let document: DocumentNode;
+  try {
+    document = parse(source);
+  } catch {
+    return null;
+  }
+  return queryCostError(analyzeQueryCost(schema, document, operationName, variables ?? {}));
+}
+
+function tooComplex(message: string, result: QueryCost, limits: QueryCostLimits) {
+  return new GraphQLError(message, {
+    extensions: {
+      code: 'QUERY_TOO_COMPLEX',
+      cost: { ...result, ...limits },
+      http: { status: 400 },
+    },
+  });
+}
+
+/**
+ * Reject operations over the configured depth or cost before execution and
+ * report the computed cost in the response `extensions`.
+ */
+export function queryCostPlugin(limits = queryCostLimits): ApolloServerPlugin {
+  return {
+    async requestDidStart() {
+      let result: QueryCost | undefined;
+
+      return {
+        async didResolveOperation({ schema, document, request }) {
+          result = analyzeQueryCost(schema, document, request.operationName, request.variables);
+          const error = queryCostError(result, limits);
+          if (error) throw error;
+        },
+
+        async willSendResponse({ response }) {
+          if (!result || response.body.kind !== 'single') return;
+          const { singleResult } = response.body;
+          singleResult.extensions = {
+            ...singleResult.extensions,
+            cost: { ...result, ...limits },
+          };
+        },
+      };
+    },
+  };
+}
@@ -1,238 +1,466 @@
 // src/graphql/resolvers.ts
-import { PrismaClient } from '@prisma/client';
+import {
+  ApiKey,
+  Article,
+  ArticleRevision,
+  ArticleStatus,
+  Author,
+  Category,
+  Entity,
+  EntityType,
+  Prisma,
+  Source,
+  Tag,
+  TrendingWindow,
+} from '@prisma/client';
 import { GraphQLError } from 'graphql';
+import { withFilter } from 'graphql-subscriptions';
+import type { Context } from '../context';
+import { prisma } from '../lib/prisma';
+import { pubsub, SUBSCRIPTION_EVENTS } from '../lib/pubsub';
+import { invalidateCache } from '../lib/cache';
+import { fullTextSearch } from '../services/searchService';
+import {
+  articleStats,
+  articleTimeSeries,
+  authorProfile,
+  TimeGranularity,
+  TimeSeriesGroupBy,
+  viewsOverTime,
+} from '../services/analyticsService';
+import { recordView, requestViewContext } from '../services/viewService';
+import { findTrending } from '../services/trendingService';
+import { hasRole, issueApiKey, Role } from '../services/authService';
+import { transitionArticle } from '../services/workflowService';
+import { resolveArticleSlug } from '../services/slugService';
+import {
+  BulkItemResult,
+  createArticle,
+  CreateArticleInput,
+  revertArticle,
+  runBulk,
+  trashArticle,
+  updateArticle,
+  UpdateArticleInput,
+  validateCreateInputs,
+  validateUpdateInputs,
+} from '../services/articleService';
+import { SourceInput, updateSource } from '../services/sourceService';
+import { linkTranslations, unlinkTranslation } from '../services/translationService';
+import {
+  addMedia,
+  MediaDetails,
+  MediaInput,
+  removeMedia,
+  reorderMedia,
+  updateMedia,
+} from '../services/mediaService';
+import { findEntities } from '../services/entityService';
+import { categoryPath, isInSubtree, setCategoryParent } from '../services/categoryService';
+import {
+  addArticleTags,
+  addTagAlias,
+  mergeTags,
+  removeArticleTags,
+  removeTagAlias,
+  setArticleTags,
+  suggestTags,
+} from '../services/tagService';
+import {
+  diffRevisions,
+  ensureBaselineRevision,
+  findRevision,
+  recordRevision,
+} from '../services/revisionService';
 import { calculateEngagementScore, analyzeContentQuality } from '../utils/metrics';
+import {
+  ArticleFilter,
+  buildArticleSqlWhere,
+  buildArticleWhere,
+  hasSearchTerm,
+  NOT_DELETED,
+  PUBLISHED,
+} from '../utils/articleFilter';
+import { categorySubtreeWhere } from '../utils/categoryTree';
+import { normalizeLanguage } from '../utils/language';
+import {
+  ArticleSort,
+  ConnectionArgs,
+  DEFAULT_SORT,
+  MAX_PAGE_SIZE,
+  articleOrderBy,
+  articleOrderSql,
+  cursorSql,
+  cursorWhere,
+  decodeCursor,
+  encodeCursor,
+} from '../utils/pagination';
 
-const prisma = new PrismaClient();
+const TIME_SERIES_METRICS = ['COUNT', 'AVERAGE_SENTIMENT', 'TOTAL_VIEWS', 'AVERAGE_WORD_COUNT'];
+
+// p50/p90/p99 as computed by the database; null when no article had a value
+function percentileStats(values: number[] | null) {
+  if (!values || values[0] == null) return null;
+  const [p50, p90, p99] = values;
+  return { p50, p90, p99 };
+}
+
+// Articles filed directly under a category, or anywhere in its subtree
+function inCategory(categoryId: string, includeSubcategories?: boolean): Prisma.ArticleWhereInput {
+  return includeSubcategories ? { category: categorySubtreeWhere([categoryId]) } : { categoryId };
+}
+
+type ArticleConnectionArgs = ConnectionArgs & { sort?: ArticleSort | null };
+
+function badUserInput(errors: string[]) {
+  return new GraphQLError(errors.join('; '), { extensions: { code: 'BAD_USER_INPUT' } });
+}
+
+// Bulk results with totals; written articles change public results
+async function bulkPayload(results: BulkItemResult[]) {
+  const count = (status: string) => results.filter((r) => r.status === status).length;
+  if (count('SUCCESS') > 0) await invalidateCache();
+  return {
+    succeeded: count('SUCCESS'),
+    failed: count('FAILED'),
+    skipped: count('SKIPPED'),
+    results,
+  };
+}
+
+// Tag edits are article edits: they are recorded as a revision and drop
+// cached results, like updateArticle
+async function editArticleTags(
+  articleId: string,
+  viewer: Context['viewer'],
+  edit: (tx: Prisma.TransactionClient) => Promise<unknown>
+) {
+  const article = await prisma.$transaction(async (tx) => {
+    const existing = await tx.article.findFirst({ where: { id: articleId, ...NOT_DELETED } });
+    if (!existing) throw new GraphQLError('Article not found');
+
+    await ensureBaselineRevision(tx, articleId);
+    await edit(tx);
+    await recordRevision(tx, articleId, viewer);
+    return tx.article.findUniqueOrThrow({ where: { id: articleId } });
+  });
+
+  await invalidateCache();
+  return article;
+}
+
+// Articles to list, as a Prisma condition or, for filters Prisma cannot
+// express (full-text search terms), as a SQL condition on `a`
+type ArticleWhere = Prisma.ArticleWhereInput | { sql: Prisma.Sql };
+
+// Articles matching a SQL condition. Only the page's ids are selected in SQL;
+// the rows are then loaded through Prisma and put back in that order.
+async function findArticlesBySql(
+  where: Prisma.Sql,
+  orderBy: Prisma.Sql,
+  take: number,
+  skip: number
+) {
+  const rows = await prisma.$queryRaw<{ id: string }[]>`
+    SELECT a."id" FROM "Article" a
+    WHERE ${where}
+    ORDER BY ${orderBy}
+    LIMIT ${take} OFFSET ${skip}
+  `;
+  const articles = await prisma.article.findMany({
+    where: { id: { in: rows.map((row) => row.id) } },
+  });
+  return rows.flatMap((row) => articles.find((article) => article.id === row.id) ?? []);
+}
+
+/**
+ * Relay-style pagination over articles. Cursors are keyset positions on the
+ * active sort field plus id; `offset` is still honoured when no cursor is given.
+ */
+async function findArticleConnection(where: ArticleWhere, args: ArticleConnectionArgs) {
+  const sort = args.sort || DEFAULT_SORT;
+  const backward = args.last != null || (args.before != null && args.first == null);
+  const requested = (backward ? args.last : args.first) ?? 10;
+
+  if (requested < 0) {
+    throw new GraphQLError('Page size must not be negative', {
+      extensions: { code: 'BAD_USER_INPUT' },
+    });
+  }
+  const size = Math.min(requested, MAX_PAGE_SIZE);
+
+  const after = args.after ? decodeCursor(args.after, sort) : null;
+  const before = args.before ? decodeCursor(args.before, sort) : null;
+  const offset = after || before ? 0 : args.offset || 0;
+
+  // Fetch one extra row to find out whether another page exists
+  let rows: Article[];
+  if ('sql' in where) {
+    const conditions = [where.sql];
+    if (after) conditions.push(cursorSql(after, sort, 'after'));
+    if (before) conditions.push(cursorSql(before, sort, 'before'));
+    const orderBy = articleOrderSql(sort, backward);
+    rows = await findArticlesBySql(Prisma.join(conditions, ' AND '), orderBy, size + 1, offset);
+  } else {
+    const conditions: Prisma.ArticleWhereInput[] = [where];
+    if (after) conditions.push(cursorWhere(after, sort, 'after'));
+    if (before) conditions.push(cursorWhere(before, sort, 'before'));
+    rows = await prisma.article.findMany({
+      where: { AND: conditions },
+      orderBy: articleOrderBy(sort, backward),
+      take: size + 1,
+      skip: offset,
+    });
+  }
+
+  const hasMore = rows.length > size;
+  const nodes = rows.slice(0, size);
+  if (backward) nodes.reverse();
+
+  const edges = nodes.map((node) => ({ cursor: encodeCursor(node, sort), node }));
+
+  return {
+    edges,
+    pageInfo: {
+      hasNextPage: backward ? Boolean(args.before) : hasMore,
+      hasPreviousPage: backward ? hasMore : Boolean(args.after) || offset > 0,
+      startCursor: edges[0]?.cursor ?? null,
+      endCursor: edges[edges.length - 1]?.cursor ?? null,
+    },
+    // Kept for the lazily-resolved totalCount field
+    where,
+  };
+}
 
 export const resolvers = {
   Query: {
-    article: async (_: any, args: { id?: string; slug?: string }) => {
+    article: async (_: unknown, args: { id?: string; slug?: string }, context: Context) => {
       if (!args.id && !args.slug) {
         throw new GraphQLError('Either id or slug must be provided');
       }
 
-      return prisma.article.findUnique({
-        where: args.id ? { id: args.id } : { slug: args.slug! },
-      });
+      // Editors can open unpublished articles to review and edit them
+      const visible = hasRole(context.viewer, 'EDITOR') ? NOT_DELETED : PUBLISHED;
+      if (!args.id) return resolveArticleSlug(args.slug!, visible);
+
+      return prisma.article.findFirst({ where: { id: args.id, ...visible } });
     },
 
     articles: async (_: any, args: any) => {
       const { filter = {}, sort, limit = 10, offset = 0 } = args;
 
-      const where: any = {};
-
-      // Build filter conditions
-      if (filter.categoryId) where.categoryId = filter.categoryId;
-      if (filter.author) where.author = filter.author;
-      if (filter.source) where.source = filter.source;
-      if (filter.searchTerm) {
-        where.OR = [
-          { title: { contains: filter.searchTerm, mode: 'insensitive' } },
-          { content: { contains: filter.searchTerm, mode: 'insensitive' } },
-        ];
-      }
-      if (filter.publishedAfter) {
-        where.publishedAt = { ...where.publishedAt, gte: new Date(filter.publishedAfter) };
-      }
-      if (filter.publishedBefore) {
-        where.publishedAt = { ...where.publishedAt, lte: new Date(filter.publishedBefore) };
-      }
-      if (filter.minWordCount) {
-        where.wordCount = { ...where.wordCount, gte: filter.minWordCount };
-      }
-      if (filter.maxWordCount) {
-        where.wordCount = { ...where.wordCount, lte: filter.maxWordCount };
-      }
-      if (filter.sentiment) {
-        where.sentiment = { gte: filter.sentiment.min, lte: filter.sentiment.max };
-      }
-      if (filter.tags?.length) {
-        where.tags = { some: { name: { in: filter.tags } } };
-      }
-
-      // Build sort
-      let orderByField = 'publishedAt'; // default
-      if (sort) {
-        // Map GraphQL enum values to Prisma field names
-        const fieldMapping: { [key: string]: string } = {
-          'PUBLISHED_AT': 'publishedAt',
-          'VIEW_COUNT': 'viewCount',
-          'WORD_COUNT': 'wordCount',
-          'SENTIMENT': 'sentiment',
-          'READING_TIME': 'readingTime',
-        };
-        orderByField = fieldMapping[sort.field] || 'publishedAt';
+      if (hasSearchTerm(filter)) {
+        const orderBy = articleOrderSql(sort || DEFAULT_SORT);
+        return findArticlesBySql(buildArticleSqlWhere(filter), orderBy, limit, offset);
       }
-
-      const orderBy = sort
-        ? {
-            [orderByField]: sort.order.toLowerCase() as 'asc' | 'desc',
-          }
-        : { publishedAt: 'desc' as const };
-
       return prisma.article.findMany({
-        where,
-        orderBy,
+        where: buildArticleWhere(filter),
+        orderBy: articleOrderBy(sort || DEFAULT_SORT),
         take: limit,
         skip: offset,
       });
     },
 
+    articlesConnection: async (
+      _: unknown,
+      args: ArticleConnectionArgs & { filter?: ArticleFilter | null }
+    ) => {
+      const { filter = {}, ...connectionArgs } = args;
+      const where = hasSearchTerm(filter)
+        ? { sql: buildArticleSqlWhere(filter) }
+        : buildArticleWhere(filter);
+      return findArticleConnection(where, connectionArgs);
+    },
+
     searchArticles: async (_: any, args: { query: string; filter?: any; limit?: number }) => {
       const { query, filter = {}, limit = 10 } = args;
 
-      // Full-text search with facets
-      const where = {
-        OR: [
-          { title: { contains: query, mode: 'insensitive' as const } },
-          { content: { contains: query, mode: 'insensitive' as const } },
-          { excerpt: { contains: query, mode: 'insensitive' as const } },
-        ],
-        ...filter,
-      };
+      // Ranked full-text search with facets over the matched set
+      const { hits, totalCount, facets } = await fullTextSearch(
+        query,
+        buildArticleSqlWhere(filter),
+        limit,
+        filter.language ? normalizeLanguage(filter.language) : null
+      );
 
-      const [articles, totalCount, categories, authors, sources] = await Promise.all([
-        prisma.article.findMany({ where, take: limit }),
-        prisma.article.count({ where }),
-
-        // Facets
-        prisma.article.groupBy({
-          by: ['categoryId'],
-          where,
-          _count: true,
-          orderBy: { _count: { id: 'desc' } },
-          take: 10,
-        }),
-        prisma.article.groupBy({
-          by: ['author'],
-          where,
-          _count: true,
-          orderBy: { _count: { id: 'desc' } },
-          take: 10,
-        }),
-        prisma.article.groupBy({
-          by: ['source'],
-          where,
-          _count: true,
-          orderBy: { _count: { id: 'desc' } },
-          take: 10,
+      const [articles, categoryDetails] = await Promise.all([
+        prisma.article.findMany({ where: { id: { in: hits.map((h) => h.id) } } }),
+        // Load category details for facets
+        prisma.category.findMany({
+          where: { id: { in: facets.categories.map((c) => c.key!) } },
         }),
       ]);
 
-      // Load category details for facets
-      const categoryDetails = await prisma.category.findMany({
-        where: { id: { in: categories.map((c) => c.categoryId) } },
-      });
+      const rankedHits = hits
+        .map((hit) => ({
+          article: articles.find((a) => a.id === hit.id),
+          score: hit.score,
+          highlight: hit.highlight,
+        }))
+        .filter((hit) => hit.article);
 
       return {
-        articles,
+        articles: rankedHits.map((hit) => hit.article),
+        hits: rankedHits,
         totalCount,
         facets: {
-          categories: categories.map((c) => ({
-            key: categoryDetails.find((cd) => cd.id === c.categoryId)?.name || 'Unknown',
-            count: c._count,
+          categories: facets.categories.map((c) => ({
+            key: categoryDetails.find((cd) => cd.id === c.key)?.name || 'Unknown',
+            count: c.count,
           })),
-          authors: authors.map((a) => ({
-            key: a.author,
-            count: a._count,
+          authors: facets.authors.map((a) => ({
+            key: a.key!,
+            count: a.count,
           })),
-          sources: sources
-            .filter((s) => s.source)
+          sources: facets.sources
+            .filter((s) => s.key)
             .map((s) => ({
-              key: s.source!,
-              count: s._count,
+              key: s.key!,
+              count: s.count,
+            })),
+          languages: facets.languages
+            .filter((l) => l.key)
+            .map((l) => ({
+              key: l.key!,
+              count: l.count,
             })),
         },
       };
     },
 
-    articleStats: async (_: any, args: { filter?: any }) => {
-      const where = args.filter || {};
-
-      const [totalCount, aggregations, _sentimentData, topAuthorsData, categoryData] =
-        await Promise.all([
-          prisma.article.count({ where }),
-          prisma.article.aggregate({
-            where,
-            _avg: { wordCount: true, readingTime: true },
-          }),
-          prisma.article.aggregate({
-            where,
-            _count: { sentiment: true },
-            _sum: { sentiment: true },
-          }),
-          prisma.article.groupBy({
-            by: ['author'],
-            where,
-            _count: true,
-            _avg: { sentiment: true },
-            _sum: { viewCount: true },
-            orderBy: { _count: { id: 'desc' } },
-            take: 5,
-          }),
-          prisma.article.groupBy({
-            by: ['categoryId'],
-            where,
-            _count: true,
-          }),
-        ]);
-
-      // Calculate sentiment distribution
-      const articles = await prisma.article.findMany({
-        where,
-        select: { sentiment: true },
+    articleStats: async (
+      _: unknown,
+      args: {
+        filter?: ArticleFilter | null;
+        sentimentThresholds?: { negative?: number; positive?: number };
+        histogram?: { wordCountBucketSize?: number; readingTimeBucketSize?: number };
+      }
+    ) => {
+      const { summary, wordCounts, readingTimes, topAuthors, categories } = await articleStats(
+        args.filter ?? {},
+        {
+          sentimentThresholds: {
+            negative: args.sentimentThresholds?.negative ?? -0.3,
+            positive: args.sentimentThresholds?.positive ?? 0.3,
+          },
+          wordCountBucketSize: args.histogram?.wordCountBucketSize ?? 250,
+          readingTimeBucketSize: args.histogram?.readingTimeBucketSize ?? 1,
+        }
+      );
+
+      const categoryDetails = await prisma.category.findMany({
+        where: { id: { in: categories.map((c) => c.categoryId) } },
       });
+      const { totalCount } = summary;
 
-      const sentimentDistribution = {
-        positive: articles.filter((a) => a.sentiment && a.sentiment > 0.3).length,
-        neutral: articles.filter((a) => a.sentiment && a.sentiment >= -0.3 && a.sentiment <= 0.3)
-          .length,
-        negative: articles.filter((a) => a.sentiment && a.sentiment < -0.3).length,
-        average: articles.length > 0 
-          ? articles.reduce((sum, a) => sum + (a.sentiment || 0), 0) / articles.length 
-          : 0,
+      return {
+        totalCount,
+        averageWordCount: summary.averageWordCount ?? 0,
+        averageReadingTime: summary.averageReadingTime ?? 0,
+        wordCount: {
+          percentiles: percentileStats(summary.wordCountPercentiles),
+          histogram: wordCounts,
+        },
+        readingTime: {
+          percentiles: percentileStats(summary.readingTimePercentiles),
+          histogram: readingTimes,
+        },
+        topAuthors: topAuthors.map((a) => ({
+          ...a,
+          averageSentiment: a.averageSentiment || 0,
+        })),
+        categoryBreakdown: categories.map((c) => ({
+          category: categoryDetails.find((cat) => cat.id === c.categoryId),
+          count: c.count,
+          percentage: totalCount > 0 ? (c.count / totalCount) * 100 : 0,
+        })),
+        sentimentDistribution: {
+          positive: summary.positive,
+          neutral: summary.neutral,
+          negative: summary.negative,
+          unscored: summary.unscored,
+          average: summary.averageSentiment ?? 0,
+          percentiles: percentileStats(summary.sentimentPercentiles),
+        },
       };
+    },
 
-      // Get category details
-      const categories = await prisma.category.findMany({
-        where: { id: { in: categoryData.map((c) => c.categoryId) } },
+    articleTimeSeries: async (
+      _: unknown,
+      args: {
+        filter?: ArticleFilter | null;
+        granularity?: TimeGranularity;
+        metrics?: string[];
+        groupBy?: TimeSeriesGroupBy;
+        groupLimit?: number;
+      }
+    ) => {
+      const { granularity = 'DAY', groupBy = null } = args;
+      const metrics = new Set(args.metrics ?? TIME_SERIES_METRICS);
+      const { groups, points } = await articleTimeSeries(args.filter ?? {}, {
+        granularity,
+        groupBy,
+        groupLimit: Math.min(args.groupLimit ?? 10, MAX_PAGE_SIZE),
       });
 
       return {
-        totalCount,
-        averageWordCount: aggregations._avg.wordCount || 0,
-        averageReadingTime: aggregations._avg.readingTime || 0,
-        topAuthors: topAuthorsData.map((a) => ({
-          author: a.author,
-          articleCount: a._count,
-          averageSentiment: a._avg.sentiment || 0,
-          totalViews: a._sum.viewCount || 0,
-        })),
-        categoryBreakdown: categoryData.map((c) => ({
-          category: categories.find((cat) => cat.id === c.categoryId),
-          count: c._count,
-          percentage: totalCount > 0 ? (c._count / totalCount) * 100 : 0,
+        granularity,
+        groupBy,
+        series: groups.map((group) => ({
+          key: groupBy ? group.key : null,
+          label: group.label,
+          points: points
+            .filter((point) => point.key === group.key)
+            .map((point) => ({
+              bucket: point.bucket.toISOString(),
+              count: metrics.has('COUNT') ? point.count : null,
+              totalViews: metrics.has('TOTAL_VIEWS') ? point.totalViews : null,
+              averageSentiment: metrics.has('AVERAGE_SENTIMENT') ? point.averageSentiment : null,
+              averageWordCount: metrics.has('AVERAGE_WORD_COUNT') ? point.averageWordCount : null,
+            })),
         })),
-        sentimentDistribution,
       };
     },
 
-    trendingArticles: async (_: any, args: { limit?: number }) => {
-      // Trending based on recent views and engagement
-      const since = new Date();
-      since.setDate(since.getDate() - 7); // Last 7 days
+    viewsOverTime: async (
+      _: unknown,
+      args: { articleId: string; granularity?: TimeGranularity; since?: string; until?: string }
+    ) => {
+      const buckets = await viewsOverTime(args.articleId, {
+        granularity: args.granularity ?? 'DAY',
+        since: args.since,
+        until: args.until,
+      });
+      return buckets.map((b) => ({ ...b, bucket: b.bucket.toISOString() }));
+    },
 
-      return prisma.article.findMany({
-        where: { publishedAt: { gte: since } },
-        orderBy: { viewCount: 'desc' },
-        take: args.limit || 5,
+    trendingArticles: async (
+      _: unknown,
+      args: {
+        categoryId?: string;
+        includeSubcategories?: boolean;
+        window?: TrendingWindow;
+        limit?: number;
+      },
+      context: Context
+    ) => {
+      const window = args.window ?? TrendingWindow.DAY;
+      const trending = await findTrending({
+        window,
+        where: args.categoryId ? inCategory(args.categoryId, args.includeSubcategories) : {},
+        limit: Math.min(args.limit || 5, MAX_PAGE_SIZE),
       });
+
+      // Scores are read from the precomputed table; reuse them for trendingScore
+      for (const { articleId, score } of trending) {
+        context.trendingScoreLoader.prime(`${window}:${articleId}`, score);
+      }
+      return trending.map(({ article }) => article);
     },
 
     recommendedArticles: async (_: any, args: { articleId: string; limit?: number }) => {
-      const article = await prisma.article.findUnique({
-        where: { id: args.articleId },
+      const article = await prisma.article.findFirst({
+        where: { id: args.articleId, ...PUBLISHED },
         include: { tags: true },
       });
 
@@ -246,13 +474,16 @@ export const resolvers = {
             { categoryId: article.categoryId },
             { tags: { some: { id: { in: article.tags.map((t) => t.id) } } } },
           ],
+          ...PUBLISHED,
         },
         orderBy: { viewCount: 'desc' },
         take: args.limit || 5,
       });
     },
 
-    categories: () => prisma.category.findMany(),
+    categories: (_: unknown, args: { topLevel?: boolean }) => {
+      return prisma.category.findMany({ where: args.topLevel ? { parentId: null } : {} });
+    },
 
     category: (_: any, args: { slug: string }) => {
       return prisma.category.findUnique({ where: { slug: args.slug } });
@@ -262,66 +493,391 @@ export const resolvers = {
       return prisma.tag.findMany({ take: args.limit || 50 });
     },
 
-    naturalLanguageQuery: async (_: any, args: { query: string }, context: any) => {
-      return context.mcp.nlQueryService.processQuery(args.query);
+    tagSuggestions: (_: unknown, args: { prefix: string; limit?: number }) => {
+      return suggestTags(args.prefix, Math.min(args.limit ?? 10, MAX_PAGE_SIZE));
     },
-  },
 
-  Mutation: {
-    incrementViewCount: async (_: any, args: { articleId: string }) => {
-      return prisma.article.update({
-        where: { id: args.articleId },
-        data: { viewCount: { increment: 1 } },
+    authors: (_: unknown, args: { search?: string; limit?: number; offset?: number }) => {
+      return prisma.author.findMany({
+        where: args.search ? { name: { contains: args.search, mode: 'insensitive' } } : {},
+        orderBy: { name: 'asc' },
+        take: Math.min(args.limit ?? 50, MAX_PAGE_SIZE),
+        skip: args.offset,
       });
     },
 
-    createArticle: async (_: any, args: { input: any }) => {
-      const { tagNames = [], ...articleData } = args.input;
+    author: (_: unknown, args: { slug: string }) => {
+      return prisma.author.findUnique({ where: { slug: args.slug } });
+    },
+
+    authorProfile: async (_: unknown, args: { name: string; granularity?: TimeGranularity }) => {
+      const profile = await authorProfile(args.name, args.granularity ?? 'MONTH');
+      if (!profile) return null;
 
-      // Calculate derived fields
-      const wordCount = articleData.content.split(/\s+/).length;
-      const readingTime = Math.ceil(wordCount / 200); // 200 words per minute
+      const { name, totals, categories, topTags, coAuthors, activity } = profile;
+      const articleCount = totals._count;
 
-      // Create or connect tags
-      const tags = {
-        connectOrCreate: tagNames.map((name: string) => ({
-          where: { name },
-          create: { name },
+      return {
+        name,
+        articleCount,
+        firstPublishedAt: totals._min.publishedAt?.toISOString() ?? null,
+        lastPublishedAt: totals._max.publishedAt?.toISOString() ?? null,
+        averageWordCount: totals._avg.wordCount ?? 0,
+        averageReadingTime: totals._avg.readingTime ?? 0,
+        averageSentiment: totals._avg.sentiment,
+        totalViews: totals._sum.viewCount ?? 0,
+        averageViews: totals._avg.viewCount ?? 0,
+        categories: categories.map((c) => ({
+          ...c,
+          percentage: articleCount > 0 ? (c.count / articleCount) * 100 : 0,
         })),
+        topTags,
+        coAuthors,
+        activity: activity.map((point) => ({ ...point, bucket: point.bucket.toISOString() })),
       };
+    },
 
-      return prisma.article.create({
-        data: {
-          ...articleData,
-          slug: articleData.title.toLowerCase().replace(/\s+/g, '-'),
-          wordCount,
-          readingTime,
-          tags,
-          publishedAt: new Date(articleData.publishedAt),
+    sources: (_: unknown, args: { country?: string; language?: string }) => {
+      return prisma.source.findMany({
+        where: {
+          ...(args.country && { country: args.country.toUpperCase() }),
+          ...(args.language && { language: args.language.toLowerCase() }),
         },
+        orderBy: { name: 'asc' },
       });
     },
 
-    updateArticle: async (_: any, args: { id: string; input: any }) => {
-      const { tagNames, ...updateData } = args.input;
+    source: (_: unknown, args: { slug: string }) => {
+      return prisma.source.findUnique({ where: { slug: args.slug } });
+    },
 
-      if (updateData.content) {
-        updateData.wordCount = updateData.content.split(/\s+/).length;
-        updateData.readingTime = Math.ceil(updateData.wordCount / 200);
+    entities: (_: unknown, args: { type?: EntityType; prefix?: string; limit?: number }) => {
+      return findEntities({
+        type: args.type,
+        prefix: args.prefix,
+        limit: Math.min(args.limit ?? 20, MAX_PAGE_SIZE),
+      });
+    },
+
+    entity: (_: unknown, args: { id: string }) => {
+      return prisma.entity.findUnique({ where: { id: args.id } });
+    },
+
+    naturalLanguageQuery: async (_: any, args: { query: string }, context: any) => {
+      return context.mcp.nlQueryService.processQuery(args.query);
+    },
+
+    editorialArticles: (
+      _: unknown,
+      args: { status?: ArticleStatus | null; limit?: number; offset?: number }
+    ) => {
+      return prisma.article.findMany({
+        where: { ...NOT_DELETED, ...(args.status && { status: args.status }) },
+        orderBy: { updatedAt: 'desc' },
+        take: Math.min(args.limit ?? 20, MAX_PAGE_SIZE),
+        skip: args.offset ?? 0,
+      });
+    },
+
+    trashedArticles: (_: unknown, args: { limit?: number; offset?: number }) => {
+      return prisma.article.findMany({
+        where: { deletedAt: { not: null } },
+        orderBy: { deletedAt: 'desc' },
+        take: Math.min(args.limit ?? 20, MAX_PAGE_SIZE),
+        skip: args.offset ?? 0,
+      });
+    },
+
+    articleRevisionDiff: async (_: unknown, args: { from: string; to: string }) => {
+      const [from, to] = await Promise.all([findRevision(args.from), findRevision(args.to)]);
+      return diffRevisions(from, to);
+    },
+
+    apiKeys: (_: unknown, args: { includeRevoked?: boolean }) => {
+      return prisma.apiKey.findMany({
+        where: args.includeRevoked ? {} : { revokedAt: null },
+        orderBy: { createdAt: 'desc' },
+      });
+    },
+  },
+
+  Mutation: {
+    incrementViewCount: async (
+      _: unknown,
+      args: { articleId: string; sessionId?: string; referrer?: string },
+      context: Context
+    ) => {
+      const article = await prisma.article.findFirst({
+        where: { id: args.articleId, ...PUBLISHED },
+      });
+      if (!article) {
+        throw new GraphQLError(`Article ${args.articleId} not found`, {
+          extensions: { code: 'NOT_FOUND' },
+        });
       }
 
-      return prisma.article.update({
+      // viewCountUpdated is published once the batch holding this view is written
+      recordView(article.id, requestViewContext(context.req, args));
+      return article;
+    },
+
+    createArticle: async (_: unknown, args: { input: CreateArticleInput }, context: Context) => {
+      const [errors] = await validateCreateInputs([args.input]);
+      if (errors.length > 0) throw badUserInput(errors);
+
+      const article = await prisma.$transaction((tx) =>
+        createArticle(tx, args.input, context.viewer)
+      );
+
+      // New articles start as drafts, so public results and subscribers are unaffected
+      return article;
+    },
+
+    updateArticle: async (
+      _: unknown,
+      args: { id: string; input: UpdateArticleInput },
+      context: Context
+    ) => {
+      const [errors] = await validateUpdateInputs([args.input]);
+      if (errors.length > 0) throw badUserInput(errors);
+
+      const article = await prisma.$transaction((tx) =>
+        updateArticle(tx, args.id, args.input, context.viewer)
+      );
+
+      await invalidateCache();
+      return article;
+    },
+
+    bulkCreateArticles: async (
+      _: unknown,
+      args: { inputs: CreateArticleInput[]; atomic?: boolean },
+      context: Context
+    ) => {
+      const results = await runBulk(
+        args.inputs,
+        await validateCreateInputs(args.inputs),
+        Boolean(args.atomic),
+        (tx, input) => createArticle(tx, input, context.viewer)
+      );
+      return bulkPayload(results);
+    },
+
+    bulkUpdateArticles: async (
+      _: unknown,
+      args: { items: { id: string; input: UpdateArticleInput }[]; atomic?: boolean },
+      context: Context
+    ) => {
+      const results = await runBulk(
+        args.items,
+        await validateUpdateInputs(args.items.map((item) => item.input)),
+        Boolean(args.atomic),
+        (tx, item) => updateArticle(tx, item.id, item.input, context.viewer)
+      );
+      return bulkPayload(results);
+    },
+
+    linkTranslations: async (_: unknown, args: { articleIds: string[] }) => {
+      const articles = await linkTranslations(args.articleIds);
+      await invalidateCache();
+      return articles;
+    },
+
+    unlinkTranslation: async (_: unknown, args: { articleId: string }) => {
+      const article = await unlinkTranslation(args.articleId);
+      await invalidateCache();
+      return article;
+    },
+
+    addMedia: async (_: unknown, args: { articleId: string; input: MediaInput }) => {
+      const media = await addMedia(args.articleId, args.input);
+      await invalidateCache();
+      return media;
+    },
+
+    updateMedia: async (_: unknown, args: { id: string; input: MediaDetails }) => {
+      const media = await updateMedia(args.id, args.input);
+      await invalidateCache();
+      return media;
+    },
+
+    reorderMedia: async (_: unknown, args: { articleId: string; mediaIds: string[] }) => {
+      const media = await reorderMedia(args.articleId, args.mediaIds);
+      await invalidateCache();
+      return media;
+    },
+
+    removeMedia: async (_: unknown, args: { id: string }) => {
+      await removeMedia(args.id);
+      await invalidateCache();
+      return true;
+    },
+
+    revertArticle: async (
+      _: unknown,
+      args: { id: string; revisionId: string },
+      context: Context
+    ) => {
+      const revision = await findRevision(args.revisionId);
+
+      // Reverting is itself a revision, so it can be undone the same way
+      const article = await prisma.$transaction((tx) =>
+        revertArticle(tx, args.id, revision, context.viewer)
+      );
+
+      await invalidateCache();
+      return article;
+    },
+
+    setArticleTags: (
+      _: unknown,
+      args: { articleId: string; tagNames: string[] },
+      context: Context
+    ) => {
+      return editArticleTags(args.articleId, context.viewer, (tx) =>
+        setArticleTags(tx, args.articleId, args.tagNames)
+      );
+    },
+
+    addTags: (_: unknown, args: { articleId: string; tagNames: string[] }, context: Context) => {
+      return editArticleTags(args.articleId, context.viewer, (tx) =>
+        addArticleTags(tx, args.articleId, args.tagNames)
+      );
+    },
+
+    removeTags: (_: unknown, args: { articleId: string; tagNames: string[] }, context: Context) => {
+      return editArticleTags(args.articleId, context.viewer, (tx) =>
+        removeArticleTags(tx, args.articleId, args.tagNames)
+      );
+    },
+
+    mergeTags: async (_: unknown, args: { sourceIds: string[]; targetId: string }) => {
+      const tag = await mergeTags(args.sourceIds, args.targetId);
+      await invalidateCache();
+      return tag;
+    },
+
+    addTagAlias: async (_: unknown, args: { tagId: string; alias: string }) => {
+      const tag = await addTagAlias(args.tagId, args.alias);
+      await invalidateCache();
+      return tag;
+    },
+
+    removeTagAlias: async (_: unknown, args: { alias: string }) => {
+      const tag = await removeTagAlias(args.alias);
+      await invalidateCache();
+      return tag;
+    },
+
+    // Workflow transitions; role rules per transition live in the workflow service
+    submitArticleForReview: (_: unknown, args: { id: string }, context: Context) => {
+      return transitionArticle(args.id, 'IN_REVIEW', context.viewer);
+    },
+
+    returnArticleToDraft: (_: unknown, args: { id: string }, context: Context) => {
+      return transitionArticle(args.id, 'DRAFT', context.viewer);
+    },
+
+    scheduleArticle: (_: unknown, args: { id: string; publishAt: string }, context: Context) => {
+      return transitionArticle(args.id, 'SCHEDULED', context.viewer, { publishAt: args.publishAt });
+    },
+
+    publishArticle: (_: unknown, args: { id: string }, context: Context) => {
+      return transitionArticle(args.id, 'PUBLISHED', context.viewer);
+    },
+
+    archiveArticle: (_: unknown, args: { id: string }, context: Context) => {
+      return transitionArticle(args.id, 'ARCHIVED', context.viewer);
+    },
+
+    // Moves the article to the trash; `npm run purge-trash` removes it for good
+    deleteArticle: async (_: any, args: { id: string }) => {
+      await prisma.$transaction((tx) => trashArticle(tx, args.id));
+      await invalidateCache();
+      return true;
+    },
+
+    bulkDeleteArticles: async (_: unknown, args: { ids: string[]; atomic?: boolean }) => {
+      const results = await runBulk(
+        args.ids,
+        args.ids.map(() => []),
+        Boolean(args.atomic),
+        trashArticle
+      );
+      return bulkPayload(results);
+    },
+
+    restoreArticle: async (_: unknown, args: { id: string }) => {
+      const article = await prisma.article.findUnique({ where: { id: args.id } });
+      if (!article) throw new GraphQLError('Article not found');
+      if (!article.deletedAt) return article;
+
+      const restored = await prisma.article.update({
         where: { id: args.id },
-        data: updateData,
+        data: { deletedAt: null },
       });
+      await invalidateCache();
+      return restored;
     },
 
-    deleteArticle: async (_: any, args: { id: string }) => {
-      await prisma.article.delete({ where: { id: args.id } });
+    createApiKey: (_: unknown, args: { name: string; role: Role }) => {
+      return issueApiKey(args.name, args.role);
+    },
+
+    revokeApiKey: async (_: unknown, args: { id: string }) => {
+      const apiKey = await prisma.apiKey.findUnique({ where: { id: args.id } });
+      if (!apiKey) throw new GraphQLError('API key not found');
+      if (apiKey.revokedAt) return apiKey;
+
+      return prisma.apiKey.update({
+        where: { id: args.id },
+        data: { revokedAt: new Date() },
+      });
+    },
+
+    setCategoryParent: async (_: unknown, args: { id: string; parentId?: string | null }) => {
+      const category = await setCategoryParent(args.id, args.parentId ?? null);
+      await invalidateCache();
+      return category;
+    },
+
+    updateSource: async (_: unknown, args: { id: string; input: SourceInput }) => {
+      const source = await updateSource(args.id, args.input);
+      await invalidateCache();
+      return source;
+    },
+
+    invalidateCache: async () => {
+      await invalidateCache();
       return true;
     },
   },
 
+  Subscription: {
+    articlePublished: {
+      subscribe: withFilter(
+        () => pubsub.asyncIterableIterator(SUBSCRIPTION_EVENTS.ARTICLE_PUBLISHED),
+        (
+          payload?: { articlePublished: Article },
+          args?: { categoryId?: string | null; includeSubcategories?: boolean | null }
+        ) => {
+          if (!payload || !args) return false;
+          const { categoryId } = payload.articlePublished;
+          if (!args.categoryId || categoryId === args.categoryId) return true;
+          return args.includeSubcategories ? isInSubtree(categoryId, args.categoryId) : false;
+        }
+      ),
+    },
+
+    viewCountUpdated: {
+      subscribe: withFilter(
+        () => pubsub.asyncIterableIterator(SUBSCRIPTION_EVENTS.VIEW_COUNT_UPDATED),
+        (payload?: { viewCountUpdated: Article }, args?: { articleId: string }) =>
+          payload?.viewCountUpdated.id === args?.articleId
+      ),
+    },
+  },
+
   Article: {
     category: (parent: any, _: any, context: any) => {
       return context.categoryLoader.load(parent.categoryId);
@@ -331,10 +887,22 @@ export const resolvers = {
       return context.tagsLoader.load(parent.id);
     },
 
+    authors: (parent: Article, _: unknown, context: Context) => {
+      return context.authorsLoader.load(parent.id);
+    },
+
+    publisher: (parent: Article, _: unknown, context: Context) => {
+      return parent.sourceId ? context.sourceLoader.load(parent.sourceId) : null;
+    },
+
     engagementScore: (parent: any) => {
       return calculateEngagementScore(parent);
     },
 
+    trendingScore: (parent: Article, args: { window?: TrendingWindow }, context: Context) => {
+      return context.trendingScoreLoader.load(`${args.window ?? TrendingWindow.DAY}:${parent.id}`);
+    },
+
     contentQuality: (parent: any) => {
       return analyzeContentQuality(parent);
     },
@@ -354,38 +922,207 @@ export const resolvers = {
             { categoryId: parent.categoryId },
             { tags: { some: { id: { in: article.tags.map((t) => t.id) } } } },
           ],
+          ...PUBLISHED,
         },
         take: args.limit || 3,
       });
     },
+
+    // Other published versions of the same story, in any language
+    translations: (parent: Article) => {
+      if (!parent.translationGroup) return [];
+      return prisma.article.findMany({
+        where: { translationGroup: parent.translationGroup, id: { not: parent.id }, ...PUBLISHED },
+        orderBy: { language: 'asc' },
+      });
+    },
+
+    media: (parent: Article, _: unknown, context: Context) => {
+      return context.mediaLoader.load(parent.id);
+    },
+
+    leadImage: async (parent: Article, _: unknown, context: Context) => {
+      const images = (await context.mediaLoader.load(parent.id)).filter(
+        (media) => media.type === 'IMAGE'
+      );
+      return images.find((media) => media.isLead) ?? images[0] ?? null;
+    },
+
+    entities: async (parent: Article, args: { type?: EntityType }, context: Context) => {
+      const mentions = await context.entitiesLoader.load(parent.id);
+      return args.type ? mentions.filter((m) => m.entity.type === args.type) : mentions;
+    },
+
+    redirectedFrom: (parent: Article & { redirectedFrom?: string }) =>
+      parent.redirectedFrom ?? null,
+
+    previousSlugs: async (parent: Article) => {
+      const history = await prisma.slugHistory.findMany({
+        where: { articleId: parent.id },
+        orderBy: { createdAt: 'desc' },
+      });
+      return history.map((entry) => entry.slug);
+    },
+
+    publishAt: (parent: Article) => parent.publishAt?.toISOString() ?? null,
+
+    deletedAt: (parent: Article) => parent.deletedAt?.toISOString() ?? null,
+
+    revisions: (parent: Article) => {
+      return prisma.articleRevision.findMany({
+        where: { articleId: parent.id },
+        orderBy: { version: 'desc' },
+      });
+    },
+  },
+
+  ArticleRevision: {
+    category: (parent: ArticleRevision, _: unknown, context: Context) => {
+      return context.categoryLoader.load(parent.categoryId);
+    },
+
+    tags: (parent: ArticleRevision) => parent.tagNames,
+
+    createdAt: (parent: ArticleRevision) => parent.createdAt.toISOString(),
   },
 
   Category: {
-    articles: (parent: any, args: { limit?: number; offset?: number }) => {
+    parent: (parent: Category, _: unknown, context: Context) => {
+      return parent.parentId ? context.categoryLoader.load(parent.parentId) : null;
+    },
+
+    children: (parent: Category) => {
+      return prisma.category.findMany({ where: { parentId: parent.id }, orderBy: { name: 'asc' } });
+    },
+
+    breadcrumbs: (parent: Category, _: unknown, context: Context) => {
+      return categoryPath(parent, (id) => context.categoryLoader.load(id));
+    },
+
+    articles: (
+      parent: Category,
+      args: { limit?: number; offset?: number; includeSubcategories?: boolean }
+    ) => {
       return prisma.article.findMany({
-        where: { categoryId: parent.id },
+        where: { ...inCategory(parent.id, args.includeSubcategories), ...PUBLISHED },
         take: args.limit,
         skip: args.offset,
       });
     },
 
-    articleCount: (parent: any) => {
-      return prisma.article.count({ where: { categoryId: parent.id } });
+    articlesConnection: (
+      parent: Category,
+      args: ArticleConnectionArgs & { includeSubcategories?: boolean }
+    ) => {
+      const where = { ...inCategory(parent.id, args.includeSubcategories), ...PUBLISHED };
+      return findArticleConnection(where, args);
+    },
+
+    articleCount: (parent: Category, args: { includeSubcategories?: boolean }) => {
+      return prisma.article.count({
+        where: { ...inCategory(parent.id, args.includeSubcategories), ...PUBLISHED },
+      });
     },
   },
 
   Tag: {
-    articles: (parent: any, args: { limit?: number }) => {
+    aliases: async (parent: Tag) => {
+      const aliases = await prisma.tagAlias.findMany({
+        where: { tagId: parent.id },
+        orderBy: { name: 'asc' },
+      });
+      return aliases.map((alias) => alias.name);
+    },
+
+    articles: (parent: Tag, args: { limit?: number }) => {
       return prisma.article.findMany({
-        where: { tags: { some: { id: parent.id } } },
+        where: { tags: { some: { id: parent.id } }, ...PUBLISHED },
         take: args.limit,
       });
     },
 
-    articleCount: (parent: any) => {
+    articlesConnection: (parent: Tag, args: ArticleConnectionArgs) => {
+      return findArticleConnection({ tags: { some: { id: parent.id } }, ...PUBLISHED }, args);
+    },
+
+    articleCount: (parent: Tag) => {
       return prisma.article.count({
-        where: { tags: { some: { id: parent.id } } },
+        where: { tags: { some: { id: parent.id } }, ...PUBLISHED },
       });
     },
   },
+
+  Author: {
+    articles: (parent: Author, args: { limit?: number; offset?: number }) => {
+      return prisma.article.findMany({
+        where: { authors: { some: { id: parent.id } }, ...PUBLISHED },
+        orderBy: { publishedAt: 'desc' },
+        take: args.limit,
+        skip: args.offset,
+      });
+    },
+
+    articlesConnection: (parent: Author, args: ArticleConnectionArgs) => {
+      return findArticleConnection({ authors: { some: { id: parent.id } }, ...PUBLISHED }, args);
+    },
+
+    articleCount: (parent: Author) => {
+      return prisma.article.count({
+        where: { authors: { some: { id: parent.id } }, ...PUBLISHED },
+      });
+    },
+  },
+
+  Entity: {
+    articles: async (parent: Entity, args: { limit?: number; offset?: number }) => {
+      const mentions = await prisma.articleEntity.findMany({
+        where: { entityId: parent.id, article: PUBLISHED },
+        include: { article: true },
+        orderBy: [{ mentions: 'desc' }, { article: { publishedAt: 'desc' } }],
+        take: args.limit,
+        skip: args.offset,
+      });
+      return mentions.map((mention) => mention.article);
+    },
+
+    articleCount: (parent: Entity) => {
+      return prisma.articleEntity.count({ where: { entityId: parent.id, article: PUBLISHED } });
+    },
+  },
+
+  Source: {
+    articles: (parent: Source, args: { limit?: number; offset?: number }) => {
+      return prisma.article.findMany({
+        where: { sourceId: parent.id, ...PUBLISHED },
+        orderBy: { publishedAt: 'desc' },
+        take: args.limit,
+        skip: args.offset,
+      });
+    },
+
+    articlesConnection: (parent: Source, args: ArticleConnectionArgs) => {
+      return findArticleConnection({ sourceId: parent.id, ...PUBLISHED }, args);
+    },
+
+    articleCount: (parent: Source) => {
+      return prisma.article.count({ where: { sourceId: parent.id, ...PUBLISHED } });
+    },
+  },
+
+  ApiKey: {
+    lastUsedAt: (parent: ApiKey) => parent.lastUsedAt?.toISOString() ?? null,
+    revokedAt: (parent: ApiKey) => parent.revokedAt?.toISOString() ?? null,
+    createdAt: (parent: ApiKey) => parent.createdAt.toISOString(),
+  },
+
+  ArticleConnection: {
+    // Counting is comparatively expensive, so only do it when the field is selected
+    totalCount: async (parent: { where: ArticleWhere }) => {
+      if (!('sql' in parent.where)) return prisma.article.count({ where: parent.where });
+      const [{ count }] = await prisma.$queryRaw<{ count: number }[]>`
+        SELECT count(*)::int AS "count" FROM "Article" a WHERE ${parent.where.sql}
+      `;
+      return count;
+    },
+  },
 };
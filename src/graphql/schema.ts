@@ -0,0 +1,16 @@
+// src/graphql/schema.ts
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { IExecutableSchemaDefinition, makeExecutableSchema } from '@graphql-tools/schema';
+import { cacheControlDirectiveTransformer, requiresRoleDirectiveTransformer } from './directives';
+
+/**
+ * Build the executable schema with all schema directives applied, so every
+ * entry point (HTTP, WebSocket, NL queries) enforces the same rules.
+ */
+export function createSchema(resolvers: IExecutableSchemaDefinition['resolvers']) {
+  const typeDefs = readFileSync(join(__dirname, 'schema.graphql'), 'utf8');
+  const schema = makeExecutableSchema({ typeDefs, resolvers });
+  // Role checks wrap the cache so cached results are never served to unauthorized callers
+  return requiresRoleDirectiveTransformer(cacheControlDirectiveTransformer(schema));
+}
@@ -1,8 +1,16 @@
 import dotenv from 'dotenv';
-import { readFileSync } from 'node:fs';
-import { join } from 'node:path';
 import { ApolloServer } from '@apollo/server';
+import { WebSocketServer } from 'ws';
+import { useServer } from 'graphql-ws/use/ws';
 import { resolvers } from './graphql/resolvers';
+import { createSchema } from './graphql/schema';
+import { queryCostErrorForSource, queryCostPlugin } from './graphql/queryCost';
+import {
+  loadPersistedQueries,
+  operationNotAllowedError,
+  persistedQueriesPlugin,
+  persistedQueryConfig,
+} from './graphql/persistedQueries';
 import { createContextFactory } from './context';
 import express from 'express';
 import http from 'http';
@@ -10,6 +18,9 @@ import cors from 'cors';
 import { ApolloServerPluginDrainHttpServer } from '@apollo/server/plugin/drainHttpServer';
 import { expressMiddleware } from '@as-integrations/express4';
 import { MCPServer } from './services/nlQueryService';
+import { startPublishScheduler } from './services/workflowService';
+import { startViewWriter } from './services/viewService';
+import { startTrendingScheduler } from './services/trendingService';
 
 dotenv.config();
 
@@ -17,15 +28,70 @@ async function startServer() {
   const app = express();
   const httpServer = http.createServer(app);
 
-  // Load GraphQL type definitions
-  const typeDefs = readFileSync(join(__dirname, 'graphql', 'schema.graphql'), 'utf8');
+  // Load GraphQL type definitions and apply schema directives
+  const schema = createSchema(resolvers);
+  const mcpServer = new MCPServer(resolvers);
+  const context = createContextFactory({ mcp: mcpServer });
+  const persistedQueries = loadPersistedQueries();
+
+  // WebSocket transport for subscriptions, sharing the HTTP server and path
+  const wsServer = new WebSocketServer({ server: httpServer, path: '/graphql' });
+  const wsCleanup = useServer(
+    {
+      schema,
+      context: (ctx) => context({ req: ctx.extra.request, connectionParams: ctx.connectionParams }),
+      // Apply the same depth and cost limits as the HTTP endpoint
+      onSubscribe: (_ctx, _id, payload) => {
+        if (persistedQueryConfig.strict && !persistedQueries.allows(payload.query)) {
+          return [operationNotAllowedError()];
+        }
+        const error = queryCostErrorForSource(
+          schema,
+          payload.query,
+          payload.operationName,
+          payload.variables
+        );
+        return error ? [error] : undefined;
+      },
+    },
+    wsServer
+  );
+
+  // Flip SCHEDULED articles to PUBLISHED once their publishAt has passed
+  const stopPublishScheduler = startPublishScheduler();
+
+  // Write counted article views in batches rather than one row per view
+  const stopViewWriter = startViewWriter();
+
+  // Recompute trending scores from recent views
+  const stopTrendingScheduler = startTrendingScheduler();
 
   // Create Apollo Server
   const apollo = new ApolloServer({
-    typeDefs,
-    resolvers,
-    plugins: [ApolloServerPluginDrainHttpServer({ httpServer })],
-    introspection: true,
+    schema,
+    // Automatic persisted queries: clients may send only the sha256 of a known document
+    persistedQueries: { ttl: 24 * 60 * 60 },
+    plugins: [
+      ApolloServerPluginDrainHttpServer({ httpServer }),
+      persistedQueriesPlugin(persistedQueries),
+      queryCostPlugin(),
+      {
+        // Stop background work and close subscription sockets on shutdown
+        async serverWillStart() {
+          return {
+            async drainServer() {
+              stopPublishScheduler();
+              stopTrendingScheduler();
+              await stopViewWriter();
+              await wsCleanup.dispose();
+            },
+          };
+        },
+      },
+    ],
+    // Disabled in production unless explicitly turned on
+    introspection:
+      process.env.GRAPHQL_INTROSPECTION === 'true' || process.env.NODE_ENV !== 'production',
   });
 
   await apollo.start();
@@ -33,12 +99,10 @@ async function startServer() {
   app.use(cors());
   app.use(express.json());
 
-  const mcpServer = new MCPServer(resolvers);
-
   app.use(
     '/graphql',
     expressMiddleware(apollo, {
-      context: createContextFactory({ mcp: mcpServer }),
+      context,
     })
   );
 
@@ -50,6 +114,11 @@ async function startServer() {
   await new Promise<void>((resolve) => httpServer.listen(PORT, resolve));
 
   console.log(`Server ready at http://localhost:${PORT}/graphql`);
+  console.log(`Subscriptions ready at ws://localhost:${PORT}/graphql`);
+  console.log(
+    `Persisted queries: ${persistedQueries.size} registered` +
+      (persistedQueryConfig.strict ? ' (allowlist mode)' : '')
+  );
   console.log(`Health check available at http://localhost:${PORT}/health`);
   console.log(`MCP tools available at http://localhost:${PORT}/mcp/tools`);
   console.log(`MCP execution available at http://localhost:${PORT}/mcp/execute`);
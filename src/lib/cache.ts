@@ -0,0 +1,140 @@
+// src/lib/cache.ts
+import { LRUCache } from 'lru-cache';
+import { Redis } from 'ioredis';
+
+/**
+ * Storage for cached resolver results. Invalidation works by bumping a
+ * generation number that is part of every key, so backends never need to
+ * enumerate or delete keys; stale entries simply age out.
+ */
+export interface CacheBackend {
+  get(key: string): Promise<string | undefined>;
+  set(key: string, value: string, ttlSeconds: number): Promise<void>;
+  generation(): Promise<number>;
+  bumpGeneration(): Promise<number>;
+  close(): Promise<void>;
+}
+
+export class MemoryCacheBackend implements CacheBackend {
+  private entries: LRUCache<string, string>;
+  private currentGeneration = 0;
+
+  constructor(maxEntries = 1000) {
+    this.entries = new LRUCache({ max: maxEntries });
+  }
+
+  async get(key: string) {
+    return this.entries.get(key);
+  }
+
+  async set(key: string, value: string, ttlSeconds: number) {
+    this.entries.set(key, value, { ttl: ttlSeconds * 1000 });
+  }
+
+  async generation() {
+    return this.currentGeneration;
+  }
+
+  async bumpGeneration() {
+    // Old generations can never be read again, so free their memory right away
+    this.entries.clear();
+    return ++this.currentGeneration;
+  }
+
+  async close() {}
+}
+
+// Works with Redis and protocol-compatible servers (Valkey, KeyDB, Dragonfly)
+export class RedisCacheBackend implements CacheBackend {
+  private client: Redis;
+
+  constructor(
+    url: string,
+    private prefix = 'news:cache:'
+  ) {
+    this.client = new Redis(url, { maxRetriesPerRequest: 1 });
+    this.client.on('error', (error) => console.warn('Cache backend error:', error.message));
+  }
+
+  async get(key: string) {
+    return (await this.client.get(this.prefix + key)) ?? undefined;
+  }
+
+  async set(key: string, value: string, ttlSeconds: number) {
+    await this.client.set(this.prefix + key, value, 'EX', ttlSeconds);
+  }
+
+  async generation() {
+    return Number(await this.client.get(this.prefix + 'generation')) || 0;
+  }
+
+  async bumpGeneration() {
+    return this.client.incr(this.prefix + 'generation');
+  }
+
+  async close() {
+    await this.client.quit();
+  }
+}
+
+function createCacheBackend(): CacheBackend {
+  if (process.env.REDIS_URL) return new RedisCacheBackend(process.env.REDIS_URL);
+  return new MemoryCacheBackend(Number(process.env.CACHE_MAX_ENTRIES) || undefined);
+}
+
+export const cacheBackend = createCacheBackend();
+
+/**
+ * Return the cached value for `key`, or load and store it for `ttlSeconds`.
+ * Cache failures are logged and fall through to `load`.
+ */
+export async function cached<T>(key: string, ttlSeconds: number, load: () => Promise<T>) {
+  let versionedKey: string | undefined;
+  try {
+    versionedKey = `v${await cacheBackend.generation()}:${key}`;
+    const hit = await cacheBackend.get(versionedKey);
+    if (hit !== undefined) return deserialize(hit) as T;
+  } catch (error: unknown) {
+    console.warn('Cache read failed:', error instanceof Error ? error.message : error);
+  }
+
+  const value = await load();
+
+  if (versionedKey && value !== undefined) {
+    cacheBackend
+      .set(versionedKey, serialize(value), ttlSeconds)
+      .catch((error) => console.warn('Cache write failed:', error.message));
+  }
+  return value;
+}
+
+/**
+ * Drop every cached result. Call after any write that changes articles,
+ * categories or tags.
+ */
+export async function invalidateCache() {
+  try {
+    await cacheBackend.bumpGeneration();
+  } catch (error: unknown) {
+    console.warn('Cache invalidation failed:', error instanceof Error ? error.message : error);
+  }
+}
+
+// Lets scripts exit without waiting on an open Redis connection
+export function closeCache() {
+  return cacheBackend.close();
+}
+
+// Prisma rows carry Date objects, which JSON would turn into plain strings
+function serialize(value: unknown): string {
+  return JSON.stringify(value, function (key, item) {
+    const original = this[key];
+    return original instanceof Date ? { $date: original.toISOString() } : item;
+  });
+}
+
+function deserialize(text: string): unknown {
+  return JSON.parse(text, (_key, item) =>
+    item && typeof item === 'object' && typeof item.$date === 'string' ? new Date(item.$date) : item
+  );
+}
@@ -0,0 +1,10 @@
+import { PubSub } from 'graphql-subscriptions';
+
+// In-process pub/sub for GraphQL subscriptions. Events only reach subscribers
+// connected to this instance; swap for a shared engine when running replicas.
+export const SUBSCRIPTION_EVENTS = {
+  ARTICLE_PUBLISHED: 'ARTICLE_PUBLISHED',
+  VIEW_COUNT_UPDATED: 'VIEW_COUNT_UPDATED',
+} as const;
+
+export const pubsub = new PubSub();
@@ -0,0 +1,54 @@
+// src/lib/storage.ts
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * Where uploaded media files live. Keys are relative paths chosen by the
+ * caller (`<articleId>/<uuid>.jpg`); `url` gives the address clients load the
+ * file from.
+ */
+export interface StorageAdapter {
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  delete(key: string): Promise<void>;
+  url(key: string): string;
+}
+
+// Files on the local disk, served by the app itself under `publicPath`
+export class LocalStorageAdapter implements StorageAdapter {
+  constructor(
+    readonly root: string,
+    readonly publicPath = '/media'
+  ) {}
+
+  async put(key: string, data: Buffer) {
+    const file = this.resolve(key);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, data);
+  }
+
+  async delete(key: string) {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+
+  url(key: string) {
+    return `${this.publicPath}/${key}`;
+  }
+
+  // Keys never come from clients, but refuse anything escaping the root anyway
+  private resolve(key: string) {
+    const file = path.resolve(this.root, key);
+    if (!file.startsWith(path.resolve(this.root) + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return file;
+  }
+}
+
+function createStorageAdapter(): StorageAdapter {
+  return new LocalStorageAdapter(
+    path.resolve(process.env.MEDIA_STORAGE_DIR || 'uploads'),
+    process.env.MEDIA_PUBLIC_PATH || undefined
+  );
+}
+
+export const storage = createStorageAdapter();
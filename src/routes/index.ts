@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import { mcpRoutes } from './mcp';
 import { healthRoutes } from './health';
+import { mediaRoutes } from './media';
 import type { MCPServer } from '../services/nlQueryService';
 
 export function createRoutes(mcp: MCPServer) {
@@ -8,6 +9,7 @@ export function createRoutes(mcp: MCPServer) {
 
     router.use(mcpRoutes(mcp));
     router.use(healthRoutes());
+    router.use(mediaRoutes());
 
     // Optional root
     router.get('/', (_req, res) => res.json({ status: 'ok' }));
@@ -1,5 +1,6 @@
 import { Router } from 'express';
 import type { MCPServer } from '../services/nlQueryService';
+import { requireRole } from '../services/authService';
 
 type ExecBody = {
     tool: string;
@@ -59,8 +60,8 @@ export function mcpRoutes(mcp: MCPServer) {
         }
     });
 
-    // Execute a tool
-    router.post('/mcp/execute', async (req, res) => {
+    // Execute a tool (tools may call OpenAI, so callers need at least a reader key)
+    router.post('/mcp/execute', requireRole('READER'), async (req, res) => {
         try {
             const { tool, input }: ExecBody = req.body || {};
             if (!tool) {
@@ -0,0 +1,77 @@
+import express, { Router } from 'express';
+import multer from 'multer';
+import { GraphQLError } from 'graphql';
+import { requireRole } from '../services/authService';
+import { invalidateCache } from '../lib/cache';
+import { LocalStorageAdapter, storage } from '../lib/storage';
+import { isStoredImage, MAX_UPLOAD_BYTES, uploadMedia } from '../services/mediaService';
+
+// Service errors carry GraphQL codes; map them to HTTP statuses
+const STATUS_BY_CODE: Record<string, number> = {
+  BAD_USER_INPUT: 400,
+  NOT_FOUND: 404,
+};
+
+export function mediaRoutes() {
+  const router = Router();
+  const upload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: MAX_UPLOAD_BYTES, files: 1 },
+  });
+
+  // Local uploads are served by the app; other adapters hand out their own URLs.
+  // Browsers must not sniff uploads into another type, and only images are
+  // shown inline.
+  if (storage instanceof LocalStorageAdapter) {
+    router.use(
+      storage.publicPath,
+      express.static(storage.root, {
+        fallthrough: false,
+        setHeaders: (res, file) => {
+          res.setHeader('X-Content-Type-Options', 'nosniff');
+          if (!isStoredImage(file)) res.setHeader('Content-Disposition', 'attachment');
+        },
+      })
+    );
+  }
+
+  // Multipart upload: a `file` part plus optional caption, credit, altText,
+  // width, height and isLead fields
+  router.post('/articles/:id/media', requireRole('EDITOR'), (req, res) => {
+    upload.single('file')(req, res, async (uploadError: unknown) => {
+      if (uploadError instanceof multer.MulterError) {
+        const status = uploadError.code === 'LIMIT_FILE_SIZE' ? 413 : 400;
+        return res.status(status).json({ error: uploadError.message });
+      }
+      if (uploadError) {
+        return res.status(400).json({ error: 'Invalid multipart request' });
+      }
+      if (!req.file) {
+        return res.status(400).json({ error: "Missing 'file' in multipart body" });
+      }
+
+      try {
+        const body = req.body ?? {};
+        const media = await uploadMedia(req.params.id, req.file, {
+          caption: body.caption || null,
+          credit: body.credit || null,
+          altText: body.altText || null,
+          width: body.width ? Number(body.width) : null,
+          height: body.height ? Number(body.height) : null,
+          isLead: body.isLead === 'true',
+        });
+        await invalidateCache();
+        return res.status(201).json({ media });
+      } catch (err: unknown) {
+        if (err instanceof GraphQLError) {
+          const status = STATUS_BY_CODE[String(err.extensions.code)] ?? 500;
+          return res.status(status).json({ error: err.message });
+        }
+        console.error('Media upload failed:', err);
+        return res.status(500).json({ error: 'Failed to upload media' });
+      }
+    });
+  });
+
+  return router;
+}
@@ -0,0 +1,54 @@
+// src/scripts/backfillAuthors.ts
+// Split the `author` byline of articles without credited authors into Author
+// rows. Run once after the authors migration; re-running only picks up gaps:
+//   npm run backfill-authors -- [--batch 500]
+import { prisma } from '../lib/prisma';
+import { closeCache, invalidateCache } from '../lib/cache';
+import { linkArticleAuthors } from '../services/authorService';
+import { forEachBatch } from '../utils/batches';
+
+const DEFAULT_BATCH_SIZE = 500;
+
+async function run() {
+  const args = process.argv.slice(2);
+  const batchIndex = args.indexOf('--batch');
+  const batchSize = batchIndex >= 0 ? Number(args[batchIndex + 1]) : DEFAULT_BATCH_SIZE;
+
+  if (!Number.isInteger(batchSize) || batchSize < 1) {
+    console.error('Usage: npm run backfill-authors -- [--batch <n>]');
+    process.exit(1);
+  }
+
+  let processed = 0;
+  let linked = 0;
+
+  // Bylines naming nobody ("Unknown Author") stay without authors, so page by
+  // id instead of re-querying articles that still have none
+  await forEachBatch(
+    (after) =>
+      prisma.article.findMany({
+        where: { authors: { none: {} }, ...after },
+        select: { id: true, author: true },
+        orderBy: { id: 'asc' },
+        take: batchSize,
+      }),
+    async (articles) => {
+      linked += await linkArticleAuthors(prisma, articles);
+      processed += articles.length;
+      console.log(`📈 Processed ${processed} articles...`);
+    }
+  );
+
+  await invalidateCache();
+  console.log(`✅ Linked ${linked} author credits across ${processed} articles`);
+}
+
+run()
+  .catch((error) => {
+    console.error('Failed to backfill authors:', error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await closeCache();
+    await prisma.$disconnect();
+  });
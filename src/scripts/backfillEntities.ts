@@ -0,0 +1,55 @@
+// src/scripts/backfillEntities.ts
+// Extract the people, organizations and places of articles written before
+// entity extraction existed. Run once after the entities migration; re-running
+// only picks up gaps:
+//   npm run backfill-entities -- [--batch 200]
+import { prisma } from '../lib/prisma';
+import { closeCache, invalidateCache } from '../lib/cache';
+import { syncArticleEntities } from '../services/entityService';
+import { forEachBatch } from '../utils/batches';
+
+const DEFAULT_BATCH_SIZE = 200;
+
+async function run() {
+  const args = process.argv.slice(2);
+  const batchIndex = args.indexOf('--batch');
+  const batchSize = batchIndex >= 0 ? Number(args[batchIndex + 1]) : DEFAULT_BATCH_SIZE;
+
+  if (!Number.isInteger(batchSize) || batchSize < 1) {
+    console.error('Usage: npm run backfill-entities -- [--batch <n>]');
+    process.exit(1);
+  }
+
+  let processed = 0;
+  let linked = 0;
+
+  // Articles mentioning nothing recognisable stay without entities, so page by
+  // id instead of re-querying articles that still have none
+  await forEachBatch(
+    (after) =>
+      prisma.article.findMany({
+        where: { entities: { none: {} }, ...after },
+        select: { id: true, title: true, content: true },
+        orderBy: { id: 'asc' },
+        take: batchSize,
+      }),
+    async (articles) => {
+      linked += await prisma.$transaction((tx) => syncArticleEntities(tx, articles));
+      processed += articles.length;
+      console.log(`📈 Processed ${processed} articles...`);
+    }
+  );
+
+  await invalidateCache();
+  console.log(`✅ Linked ${linked} entity mentions across ${processed} articles`);
+}
+
+run()
+  .catch((error) => {
+    console.error('Failed to backfill entities:', error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await closeCache();
+    await prisma.$disconnect();
+  });
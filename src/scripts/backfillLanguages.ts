@@ -0,0 +1,68 @@
+// src/scripts/backfillLanguages.ts
+// Detect the language of articles that have none and score their sentiment
+// with that language's word list. Run once after the languages migration;
+// re-running only picks up gaps:
+//   npm run backfill-languages -- [--batch 500]
+import { prisma } from '../lib/prisma';
+import { closeCache, invalidateCache } from '../lib/cache';
+import { forEachBatch } from '../utils/batches';
+import { detectLanguage } from '../utils/language';
+import { calculateSentiment } from '../utils/metrics';
+
+const DEFAULT_BATCH_SIZE = 500;
+
+async function run() {
+  const args = process.argv.slice(2);
+  const batchIndex = args.indexOf('--batch');
+  const batchSize = batchIndex >= 0 ? Number(args[batchIndex + 1]) : DEFAULT_BATCH_SIZE;
+
+  if (!Number.isInteger(batchSize) || batchSize < 1) {
+    console.error('Usage: npm run backfill-languages -- [--batch <n>]');
+    process.exit(1);
+  }
+
+  let processed = 0;
+  let detected = 0;
+
+  // Text too short to tell stays without a language, so page by id instead of
+  // re-querying articles that still have none
+  await forEachBatch(
+    (after) =>
+      prisma.article.findMany({
+        where: { language: null, ...after },
+        select: { id: true, title: true, content: true },
+        orderBy: { id: 'asc' },
+        take: batchSize,
+      }),
+    async (articles) => {
+      const updates = articles.flatMap((article) => {
+        const language = detectLanguage(`${article.title}\n${article.content}`);
+        if (!language) return [];
+        return [
+          prisma.article.update({
+            where: { id: article.id },
+            data: { language, sentiment: calculateSentiment(article.content, language) },
+          }),
+        ];
+      });
+      await prisma.$transaction(updates);
+
+      detected += updates.length;
+      processed += articles.length;
+      console.log(`📈 Processed ${processed} articles...`);
+    }
+  );
+
+  await invalidateCache();
+  console.log(`✅ Detected the language of ${detected} of ${processed} articles`);
+}
+
+run()
+  .catch((error) => {
+    console.error('Failed to backfill languages:', error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await closeCache();
+    await prisma.$disconnect();
+  });
@@ -6,7 +6,8 @@ async function checkAndClearData() {
   try {
     // Count existing articles
     const articleCount = await prisma.article.count();
-    console.log(`📊 Current article count: ${articleCount}`);
+    const trashedCount = await prisma.article.count({ where: { deletedAt: { not: null } } });
+    console.log(`📊 Current article count: ${articleCount} (${trashedCount} in trash)`);
 
     if (articleCount > 0) {
       console.log('🧹 Clearing existing data...');
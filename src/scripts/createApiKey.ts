@@ -0,0 +1,29 @@
+// src/scripts/createApiKey.ts
+// Issue an API key from the command line, e.g. to bootstrap the first admin:
+//   npm run create-api-key -- "Ops team" ADMIN
+import { prisma } from '../lib/prisma';
+import { issueApiKey, Role } from '../services/authService';
+
+const ROLES: Role[] = ['READER', 'EDITOR', 'ADMIN'];
+
+async function createApiKey() {
+  const [name, role = 'READER'] = process.argv.slice(2);
+
+  if (!name || !ROLES.includes(role as Role)) {
+    console.error(`Usage: npm run create-api-key -- <name> [${ROLES.join('|')}]`);
+    process.exit(1);
+  }
+
+  const { apiKey, key } = await issueApiKey(name, role as Role);
+
+  console.log(`✅ Created ${apiKey.role} key "${apiKey.name}" (${apiKey.id})`);
+  console.log(`🔑 ${key}`);
+  console.log('Store this key now, it cannot be shown again.');
+}
+
+createApiKey()
+  .catch((error) => {
+    console.error('Failed to create API key:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
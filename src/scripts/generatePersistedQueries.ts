@@ -0,0 +1,127 @@
+// src/scripts/generatePersistedQueries.ts
+// Build the persisted query manifest from the .graphql operation files:
+//   npm run persisted-queries -- [output] [pattern]
+import { readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { glob } from 'glob';
+import {
+  buildSchema,
+  DefinitionNode,
+  FragmentDefinitionNode,
+  Kind,
+  OperationDefinitionNode,
+  parse,
+  print,
+  validate,
+  visit,
+} from 'graphql';
+import {
+  DEFAULT_MANIFEST_PATH,
+  hashOperation,
+  PersistedQueryManifest,
+  PersistedQueryOperation,
+} from '../graphql/persistedQueries';
+
+const DEFAULT_PATTERN = 'src/graphql/operations/**/*.graphql';
+
+async function generatePersistedQueries() {
+  const [output = DEFAULT_MANIFEST_PATH, pattern = DEFAULT_PATTERN] = process.argv.slice(2);
+
+  const files = (await glob(pattern)).sort();
+  if (files.length === 0) {
+    throw new Error(`No operation files match ${pattern}`);
+  }
+
+  const schema = buildSchema(
+    readFileSync(join(__dirname, '..', 'graphql', 'schema.graphql'), 'utf8')
+  );
+
+  // Fragments may be shared between files, so collect them all first
+  const fragments = new Map<string, FragmentDefinitionNode>();
+  const operations: OperationDefinitionNode[] = [];
+
+  for (const file of files) {
+    for (const definition of parse(readFileSync(file, 'utf8')).definitions) {
+      if (definition.kind === Kind.FRAGMENT_DEFINITION) {
+        if (fragments.has(definition.name.value)) {
+          throw new Error(`Duplicate fragment ${definition.name.value} in ${file}`);
+        }
+        fragments.set(definition.name.value, definition);
+      } else if (definition.kind === Kind.OPERATION_DEFINITION) {
+        if (!definition.name) {
+          throw new Error(`Anonymous operation in ${file}; every operation needs a name`);
+        }
+        operations.push(definition);
+      }
+    }
+  }
+
+  const manifest: PersistedQueryManifest = {
+    format: 'apollo-persisted-query-manifest',
+    version: 1,
+    operations: [],
+  };
+  const names = new Set<string>();
+
+  for (const operation of operations) {
+    const name = operation.name!.value;
+    if (names.has(name)) {
+      throw new Error(`Duplicate operation name ${name}`);
+    }
+    names.add(name);
+
+    // Each document holds one operation plus the fragments it uses
+    const document = {
+      kind: Kind.DOCUMENT,
+      definitions: [operation, ...usedFragments(operation, fragments)],
+    } as const;
+
+    const errors = validate(schema, document);
+    if (errors.length > 0) {
+      throw new Error(`${name} is invalid: ${errors.map((e) => e.message).join('; ')}`);
+    }
+
+    // Clients must send exactly this text for the hash to match
+    const body = print(document);
+    const entry: PersistedQueryOperation = {
+      id: hashOperation(body),
+      name,
+      type: operation.operation,
+      body,
+    };
+    manifest.operations.push(entry);
+    console.log(`  ${entry.type} ${name} ${entry.id.slice(0, 12)}`);
+  }
+
+  writeFileSync(output, JSON.stringify(manifest, null, 2) + '\n');
+  console.log(`✅ Wrote ${manifest.operations.length} operations to ${output}`);
+}
+
+function usedFragments(
+  root: DefinitionNode,
+  fragments: Map<string, FragmentDefinitionNode>
+): FragmentDefinitionNode[] {
+  const used = new Map<string, FragmentDefinitionNode>();
+  const pending = [root];
+
+  while (pending.length > 0) {
+    visit(pending.pop()!, {
+      FragmentSpread(node) {
+        const name = node.name.value;
+        const fragment = fragments.get(name);
+        if (!fragment) throw new Error(`Unknown fragment ${name}`);
+        if (used.has(name)) return;
+        used.set(name, fragment);
+        pending.push(fragment);
+      },
+    });
+  }
+
+  // Stable order keeps the hash independent of file layout
+  return [...used.values()].sort((a, b) => a.name.value.localeCompare(b.name.value));
+}
+
+generatePersistedQueries().catch((error) => {
+  console.error('Failed to generate persisted queries:', error.message ?? error);
+  process.exitCode = 1;
+});
@@ -1,5 +1,13 @@
-import { PrismaClient } from '@prisma/client';
+import { Category, PrismaClient } from '@prisma/client';
 import * as fs from 'fs';
+import { closeCache, invalidateCache } from '../lib/cache';
+import { derivedFields } from '../services/articleService';
+import { allocateSlugs, slugify } from '../services/slugService';
+import { linkArticleAuthors } from '../services/authorService';
+import { syncArticleEntities } from '../services/entityService';
+import { resolveTags } from '../services/tagService';
+import { ensureKnownSources, resolveSource, sourceDomain } from '../services/sourceService';
+import { detectLanguage } from '../utils/language';
 
 const prisma = new PrismaClient({
   datasources: {
@@ -25,6 +33,10 @@ async function importKaggleNews() {
 
   await setupTags();
 
+  await ensureKnownSources(prisma);
+  const sourceIds = new Map<string, string | undefined>();
+  const sectionIds = new Map<string, string>();
+
   let count = 0;
   const batchSize = 100;
   let batch: any[] = [];
@@ -41,25 +53,26 @@ async function importKaggleNews() {
     for (const article of articles) {
       try {
         const content = article.short_description || 'No content available';
-        const wordCount = content.split(' ').length;
+        const language = detectLanguage(`${article.headline}\n${content}`);
         const publishedDate = article.date ? new Date(article.date) : new Date();
 
         const articleData = {
           title: article.headline || `Untitled Article ${count}`,
-          slug: generateSlug(article.headline || `article-${count}`) + `-${count}`,
           content: content,
           excerpt: generateExcerpt(content),
           author: article.authors || 'Unknown Author',
           publishedAt: publishedDate.toISOString(),
+          status: 'PUBLISHED' as const,
           source: 'HuffPost',
-          wordCount,
-          readingTime: Math.ceil(wordCount / 200),
-          sentiment: (Math.random() - 0.5) * 2,
+          sourceId: await resolveSourceId(article.link, sourceIds),
+          ...derivedFields(content, language),
+          language,
           viewCount: Math.floor(Math.random() * 10000),
-          categoryId: getCategoryForHuffPost(article.category, categories),
+          categoryId: await getCategoryForHuffPost(article.category, categories, sectionIds),
         };
 
-        batch.push(articleData);
+        // The link is kept for the article's media, not as an article field
+        batch.push({ data: articleData, link: article.link });
         count++;
 
         // Process batch when it reaches batchSize
@@ -79,6 +92,9 @@ async function importKaggleNews() {
     }
 
     console.log(`Import complete! Total articles processed: ${count}`);
+    // Only reaches a running server when both share a Redis cache
+    await invalidateCache();
+    await closeCache();
     await prisma.$disconnect();
     return count;
   } catch (error) {
@@ -89,11 +105,33 @@ async function importKaggleNews() {
 
 async function processBatch(batch: any[]) {
   try {
+    const slugs = await allocateSlugs(
+      prisma,
+      batch.map(({ data }) => data.title)
+    );
     const articles = await prisma.article.createMany({
-      data: batch,
+      data: batch.map(({ data }, i) => ({ ...data, slug: slugs[i] })),
       skipDuplicates: true,
     });
 
+    // createMany cannot write relations, so authors are linked afterwards
+    const created = await prisma.article.findMany({
+      where: { slug: { in: slugs } },
+      select: { id: true, author: true, slug: true, title: true, content: true },
+    });
+    await linkArticleAuthors(prisma, created);
+    await syncArticleEntities(prisma, created);
+
+    // Keep the link to the original story as embeddable media
+    await prisma.media.createMany({
+      data: created.flatMap((article) => {
+        const link = batch[slugs.indexOf(article.slug)]?.link;
+        return link
+          ? [{ articleId: article.id, type: 'EMBED' as const, url: link, position: 0 }]
+          : [];
+      }),
+    });
+
     console.log(`✅ Successfully created ${articles.count} articles in this batch`);
   } catch (error: any) {
     if (error.code === 'P2002') {
@@ -104,6 +142,16 @@ async function processBatch(batch: any[]) {
   }
 }
 
+// Resolve each article's publisher from its link, once per domain
+async function resolveSourceId(link: string, cache: Map<string, string | undefined>) {
+  const domain = sourceDomain(link) ?? '';
+  if (!cache.has(domain)) {
+    const source = await resolveSource(prisma, { name: 'HuffPost', url: link });
+    cache.set(domain, source?.id);
+  }
+  return cache.get(domain);
+}
+
 async function setupCategories() {
   const categoryData = [
     { name: 'Politics', slug: 'politics', description: 'Political news and analysis' },
@@ -159,26 +207,7 @@ async function setupTags() {
     'Trending',
   ];
 
-  const tags = [];
-  for (const name of tagNames) {
-    const tag = await prisma.tag.upsert({
-      where: { name },
-      update: {},
-      create: { name },
-    });
-    tags.push(tag);
-  }
-  return tags;
-}
-
-function generateSlug(title: string): string {
-  return title
-    .toLowerCase()
-    .replace(/[^a-z0-9 -]/g, '')
-    .replace(/\s+/g, '-')
-    .replace(/-+/g, '-')
-    .substring(0, 80)
-    .replace(/^-|-$/g, '');
+  return resolveTags(prisma, tagNames);
 }
 
 function generateExcerpt(content: string): string {
@@ -186,55 +215,87 @@ function generateExcerpt(content: string): string {
   return content.length > 200 ? content.substring(0, 200) + '...' : content;
 }
 
-function getCategoryForHuffPost(huffpostCategory: string, categories: any[]): string {
-  const categoryMap: Record<string, string> = {
-    POLITICS: 'politics',
-    WELLNESS: 'health',
-    ENTERTAINMENT: 'entertainment',
-    TRAVEL: 'travel',
-    'STYLE & BEAUTY': 'style',
-    PARENTING: 'parenting',
-    'HEALTHY LIVING': 'health',
-    'QUEER VOICES': 'entertainment',
-    'FOOD & DRINK': 'food',
-    BUSINESS: 'business',
-    COMEDY: 'comedy',
-    SPORTS: 'sports',
-    'BLACK VOICES': 'politics',
-    'HOME & LIVING': 'style',
-    PARENTS: 'parenting',
-    'THE WORLDPOST': 'world',
-    WEDDINGS: 'style',
-    WOMEN: 'politics',
-    IMPACT: 'world',
-    DIVORCE: 'parenting',
-    CRIME: 'crime',
-    MEDIA: 'entertainment',
-    'WEIRD NEWS': 'entertainment',
-    GREEN: 'science',
-    WORLDPOST: 'world',
-    RELIGION: 'world',
-    STYLE: 'style',
-    SCIENCE: 'science',
-    'WORLD NEWS': 'world',
-    TASTE: 'food',
-    TECH: 'technology',
-    MONEY: 'business',
-    ARTS: 'entertainment',
-    FIFTY: 'style',
-    'GOOD NEWS': 'world',
-    'ARTS & CULTURE': 'entertainment',
-    ENVIRONMENT: 'science',
-    COLLEGE: 'education',
-    'LATINO VOICES': 'politics',
-    'CULTURE & ARTS': 'entertainment',
-    EDUCATION: 'education',
-  };
-
-  const normalizedCategory = huffpostCategory.toUpperCase();
-  const categorySlug = categoryMap[normalizedCategory] || 'world';
-  const category = categories.find((c) => c.slug === categorySlug);
-  return category ? category.id : categories[0].id;
+// HuffPost sections and the umbrella category each one is filed under
+const HUFFPOST_SECTIONS: Record<string, string> = {
+  POLITICS: 'politics',
+  WELLNESS: 'health',
+  ENTERTAINMENT: 'entertainment',
+  TRAVEL: 'travel',
+  'STYLE & BEAUTY': 'style',
+  PARENTING: 'parenting',
+  'HEALTHY LIVING': 'health',
+  'QUEER VOICES': 'entertainment',
+  'FOOD & DRINK': 'food',
+  BUSINESS: 'business',
+  COMEDY: 'comedy',
+  SPORTS: 'sports',
+  'BLACK VOICES': 'politics',
+  'HOME & LIVING': 'style',
+  PARENTS: 'parenting',
+  'THE WORLDPOST': 'world',
+  WEDDINGS: 'style',
+  WOMEN: 'politics',
+  IMPACT: 'world',
+  DIVORCE: 'parenting',
+  CRIME: 'crime',
+  MEDIA: 'entertainment',
+  'WEIRD NEWS': 'entertainment',
+  GREEN: 'science',
+  WORLDPOST: 'world',
+  RELIGION: 'world',
+  STYLE: 'style',
+  SCIENCE: 'science',
+  'WORLD NEWS': 'world',
+  TASTE: 'food',
+  TECH: 'technology',
+  MONEY: 'business',
+  ARTS: 'entertainment',
+  FIFTY: 'style',
+  'GOOD NEWS': 'world',
+  'ARTS & CULTURE': 'entertainment',
+  ENVIRONMENT: 'science',
+  COLLEGE: 'education',
+  'LATINO VOICES': 'politics',
+  'CULTURE & ARTS': 'entertainment',
+  EDUCATION: 'education',
+};
+
+// Each HuffPost section becomes a subcategory of its umbrella category, so the
+// original taxonomy is kept. Sections named like their umbrella ("SPORTS") use
+// the umbrella itself; unknown sections are filed under World.
+async function getCategoryForHuffPost(
+  huffpostCategory: string,
+  categories: Category[],
+  sectionIds: Map<string, string>
+): Promise<string> {
+  const section = huffpostCategory.trim().toUpperCase();
+  const cached = sectionIds.get(section);
+  if (cached) return cached;
+
+  const umbrella =
+    categories.find((c) => c.slug === (HUFFPOST_SECTIONS[section] || 'world')) ?? categories[0];
+  const name = titleCase(section);
+  const slug = slugify(name);
+
+  let categoryId = umbrella.id;
+  if (section && slug !== umbrella.slug) {
+    const category = await prisma.category.upsert({
+      where: { slug },
+      update: {},
+      create: { name, slug, parentId: umbrella.id, description: `HuffPost section ${section}` },
+    });
+    categoryId = category.id;
+  }
+
+  sectionIds.set(section, categoryId);
+  return categoryId;
+}
+
+// "STYLE & BEAUTY" -> "Style & Beauty"
+function titleCase(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/(^|[\s&/.-])(\p{L})/gu, (_, sep, letter) => sep + letter.toUpperCase());
 }
 
 importKaggleNews()
@@ -0,0 +1,36 @@
+// src/scripts/purgeTrash.ts
+// Permanently delete articles trashed longer than the retention period:
+//   npm run purge-trash -- [--days 30] [--dry-run]
+import { prisma } from '../lib/prisma';
+import { closeCache } from '../lib/cache';
+import { purgeTrash, TRASH_RETENTION_DAYS } from '../services/trashService';
+
+async function run() {
+  const args = process.argv.slice(2);
+  const daysIndex = args.indexOf('--days');
+  const days = daysIndex >= 0 ? Number(args[daysIndex + 1]) : TRASH_RETENTION_DAYS;
+  const dryRun = args.includes('--dry-run');
+
+  if (!Number.isFinite(days) || days < 0) {
+    console.error('Usage: npm run purge-trash -- [--days <n>] [--dry-run]');
+    process.exit(1);
+  }
+
+  const { cutoff, count } = await purgeTrash(days, dryRun);
+
+  if (dryRun) {
+    console.log(`🔍 ${count} articles trashed before ${cutoff.toISOString()} would be purged`);
+  } else {
+    console.log(`🗑️  Purged ${count} articles trashed before ${cutoff.toISOString()}`);
+  }
+}
+
+run()
+  .catch((error) => {
+    console.error('Failed to purge trash:', error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await closeCache();
+    await prisma.$disconnect();
+  });
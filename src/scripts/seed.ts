@@ -1,6 +1,13 @@
 // src/scripts/seed.ts
 import { PrismaClient } from '@prisma/client';
 import { calculateSentiment } from '../utils/metrics';
+import { detectLanguage } from '../utils/language';
+import { closeCache, invalidateCache } from '../lib/cache';
+import { allocateSlug } from '../services/slugService';
+import { connectAuthors } from '../services/authorService';
+import { resolveTags } from '../services/tagService';
+import { syncArticleEntities } from '../services/entityService';
+import { ensureKnownSources, resolveSource } from '../services/sourceService';
 
 const prisma = new PrismaClient();
 
@@ -29,14 +36,14 @@ function generateArticle(index: number, category: any) {
 
   const wordCount = content.split(/\s+/).length;
   const readingTime = Math.ceil(wordCount / 200);
-  const sentiment = calculateSentiment(content);
+  const language = detectLanguage(content);
+  const sentiment = calculateSentiment(content, language);
 
   const date = new Date();
   date.setDate(date.getDate() - Math.floor(Math.random() * 90)); // Random date in last 90 days
 
   return {
     title: `${titles[index % titles.length]} - Part ${index + 1}`,
-    slug: `article-${category.slug}-${index + 1}`,
     content,
     excerpt: content.substring(0, 150) + '...',
     author: authors[Math.floor(Math.random() * authors.length)],
@@ -45,8 +52,10 @@ function generateArticle(index: number, category: any) {
     wordCount,
     readingTime,
     sentiment,
+    language,
     viewCount: Math.floor(Math.random() * 10000),
     publishedAt: date,
+    status: 'PUBLISHED' as const,
   };
 }
 
@@ -57,6 +66,8 @@ async function seed() {
     // Clear existing data
     await prisma.article.deleteMany();
     await prisma.tag.deleteMany();
+    await prisma.author.deleteMany();
+    await prisma.entity.deleteMany();
     await prisma.category.deleteMany();
 
     console.log('Cleared existing data');
@@ -128,10 +139,12 @@ async function seed() {
       'Markets',
     ];
 
-    const tags = await Promise.all(tagNames.map((name) => prisma.tag.create({ data: { name } })));
+    const tags = await resolveTags(prisma, tagNames);
 
     console.log(`Created ${tags.length} tags`);
 
+    await ensureKnownSources(prisma);
+
     // Create articles
     const articlesData = [];
     let articleIndex = 0;
@@ -149,14 +162,18 @@ async function seed() {
       const numTags = Math.floor(Math.random() * 3) + 2;
       const selectedTags = tags.sort(() => Math.random() - 0.5).slice(0, numTags);
 
-      await prisma.article.create({
+      const article = await prisma.article.create({
         data: {
           ...articleData,
+          slug: await allocateSlug(prisma, articleData.title),
+          authors: await connectAuthors(prisma, articleData.author),
+          sourceId: (await resolveSource(prisma, { name: articleData.source }))?.id,
           tags: {
             connect: selectedTags.map((tag) => ({ id: tag.id })),
           },
         },
       });
+      await syncArticleEntities(prisma, [article]);
     }
 
     console.log(`Created ${articlesData.length} articles`);
@@ -179,11 +196,13 @@ async function seed() {
     console.log(`   Avg Sentiment: ${(stats._avg.sentiment || 0).toFixed(2)}`);
     console.log(`   Avg View Count: ${Math.round(stats._avg.viewCount || 0)}`);
 
+    await invalidateCache();
     console.log('\nDatabase seeding completed successfully!');
   } catch (error) {
     console.error('Error seeding database:', error);
     process.exit(1);
   } finally {
+    await closeCache();
     await prisma.$disconnect();
   }
 }
@@ -0,0 +1,67 @@
+import { prisma } from '../lib/prisma';
+import { authorProfile } from './analyticsService';
+
+jest.mock('../lib/prisma', () => ({
+  prisma: {
+    article: { groupBy: jest.fn(), aggregate: jest.fn() },
+    category: { findMany: jest.fn() },
+    tag: { findMany: jest.fn() },
+    $queryRaw: jest.fn(),
+  },
+}));
+
+const article = jest.mocked(prisma.article);
+
+describe('authorProfile', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.mocked(prisma.$queryRaw).mockResolvedValue([] as never);
+    jest.mocked(prisma.category.findMany).mockResolvedValue([]);
+    jest.mocked(prisma.tag.findMany).mockResolvedValue([]);
+    article.aggregate.mockResolvedValue({ _count: 4 } as never);
+  });
+
+  function bylines(counts: Record<string, number>) {
+    const rows = Object.entries(counts).map(([author, count]) => ({ author, _count: count }));
+    article.groupBy.mockResolvedValueOnce(rows as never).mockResolvedValueOnce([] as never);
+  }
+
+  it('profiles the bylines naming the author, joint ones included', async () => {
+    bylines({
+      'Jane Doe': 2,
+      'JANE DOE and John Roe': 1,
+      'John Roe, Jane Doe & Ann Poe': 1,
+      'Jane Doerr': 3,
+    });
+
+    const profile = await authorProfile('jane doe', 'MONTH');
+
+    expect(article.groupBy).toHaveBeenCalledWith(
+      expect.objectContaining({
+        by: ['author'],
+        where: expect.objectContaining({ author: { contains: 'jane doe', mode: 'insensitive' } }),
+      })
+    );
+    expect(article.aggregate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({
+          author: {
+            in: ['Jane Doe', 'JANE DOE and John Roe', 'John Roe, Jane Doe & Ann Poe'],
+          },
+        }),
+      })
+    );
+    expect(profile?.name).toBe('Jane Doe');
+    expect(profile?.coAuthors).toEqual([
+      { name: 'John Roe', articleCount: 2 },
+      { name: 'Ann Poe', articleCount: 1 },
+    ]);
+  });
+
+  it('is null when no byline names the author', async () => {
+    bylines({ 'Jane Doerr': 3 });
+
+    expect(await authorProfile('Jane Doe', 'MONTH')).toBeNull();
+    expect(article.aggregate).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,450 @@
+// src/services/analyticsService.ts
+import { Prisma } from '@prisma/client';
+import { GraphQLError } from 'graphql';
+import { prisma } from '../lib/prisma';
+import { ArticleFilter, buildArticleSqlWhere, PUBLISHED } from '../utils/articleFilter';
+import { parseAuthorCredit } from '../utils/authorNames';
+
+export type TimeGranularity = 'HOUR' | 'DAY' | 'WEEK' | 'MONTH' | 'YEAR';
+export type TimeSeriesGroupBy = 'CATEGORY' | 'SOURCE' | 'AUTHOR' | 'TAG';
+
+export interface TimeSeriesOptions {
+  granularity: TimeGranularity;
+  groupBy?: TimeSeriesGroupBy | null;
+  groupLimit: number;
+}
+
+export interface StatsOptions {
+  // Sentiment below `negative` is negative, above `positive` positive, and
+  // anything in between (inclusive) neutral
+  sentimentThresholds: { negative: number; positive: number };
+  wordCountBucketSize: number;
+  readingTimeBucketSize: number;
+}
+
+export interface AuthorStatsRow {
+  author: string;
+  slug: string;
+  articleCount: number;
+  averageSentiment: number | null;
+  totalViews: number;
+}
+
+export interface HistogramBucket {
+  min: number;
+  max: number | null; // null for the open-ended last bucket
+  count: number;
+}
+
+interface SummaryRow {
+  totalCount: number;
+  averageWordCount: number | null;
+  averageReadingTime: number | null;
+  averageSentiment: number | null;
+  positive: number;
+  neutral: number;
+  negative: number;
+  unscored: number;
+  wordCountPercentiles: number[] | null;
+  readingTimePercentiles: number[] | null;
+  sentimentPercentiles: number[] | null;
+}
+
+interface HistogramRow {
+  bucket: number;
+  count: number;
+}
+
+export interface ViewsOverTimeOptions {
+  granularity: TimeGranularity;
+  since?: string | null;
+  until?: string | null;
+}
+
+export interface TimeSeriesPointRow {
+  key: string;
+  bucket: Date;
+  count: number;
+  averageSentiment: number | null;
+  totalViews: number;
+  averageWordCount: number | null;
+}
+
+export interface ViewBucketRow {
+  bucket: Date;
+  views: number;
+  visitors: number;
+}
+
+interface GroupRow {
+  key: string;
+  label: string;
+}
+
+// Percentiles reported for word count, reading time and sentiment
+const PERCENTILES = [0.5, 0.9, 0.99];
+
+// Histograms stop here; the last bucket takes everything above
+export const MAX_HISTOGRAM_BUCKETS = 50;
+
+// Tags and co-authors listed in an author profile
+const PROFILE_LIST_LIMIT = 10;
+
+// Most points (buckets times series) one time series query may return
+export const MAX_TIME_SERIES_POINTS = 5000;
+
+// Rough bucket lengths, only used to refuse oversized ranges up front
+const BUCKET_MS: Record<TimeGranularity, number> = {
+  HOUR: 3_600_000,
+  DAY: 86_400_000,
+  WEEK: 7 * 86_400_000,
+  MONTH: 28 * 86_400_000,
+  YEAR: 365 * 86_400_000,
+};
+
+const DEFAULT_VIEWS_RANGE_MS = 30 * 86_400_000;
+
+// Every group joins its table as `g`, so the key is `g."id"` and the label `g."name"`
+const GROUP_JOINS: Record<TimeSeriesGroupBy, Prisma.Sql> = {
+  CATEGORY: Prisma.sql`JOIN "Category" g ON g."id" = a."categoryId"`,
+  SOURCE: Prisma.sql`JOIN "Source" g ON g."id" = a."sourceId"`,
+  AUTHOR: Prisma.sql`JOIN "_ArticleToAuthor" aa ON aa."A" = a."id" JOIN "Author" g ON g."id" = aa."B"`,
+  TAG: Prisma.sql`JOIN "_ArticleToTag" at ON at."A" = a."id" JOIN "Tag" g ON g."id" = at."B"`,
+};
+
+/**
+ * Aggregates over the articles matching `filter`, all computed in the
+ * database: averages, p50/p90/p99 percentiles, word count and reading time
+ * histograms, sentiment buckets by the given thresholds, the top five credited
+ * authors and the article count per category. Articles without a sentiment
+ * score are counted as unscored rather than in a bucket.
+ */
+export async function articleStats(filter: ArticleFilter, options: StatsOptions) {
+  const { negative, positive } = options.sentimentThresholds;
+  if (!(negative >= -1 && positive <= 1 && negative <= positive)) {
+    throw badInput('Sentiment thresholds must satisfy -1 <= negative <= positive <= 1');
+  }
+  for (const field of ['wordCountBucketSize', 'readingTimeBucketSize'] as const) {
+    if (!Number.isInteger(options[field]) || options[field] <= 0) {
+      throw badInput(`${field} must be a positive integer`);
+    }
+  }
+
+  const where = buildArticleSqlWhere(filter);
+  const percentiles = Prisma.sql`ARRAY[${Prisma.join(PERCENTILES)}]::float8[]`;
+  const [[summary], wordCounts, readingTimes, topAuthors, categories] = await Promise.all([
+    prisma.$queryRaw<SummaryRow[]>`
+      SELECT count(*)::int AS "totalCount",
+             avg(a."wordCount")::float8 AS "averageWordCount",
+             avg(a."readingTime")::float8 AS "averageReadingTime",
+             avg(a."sentiment")::float8 AS "averageSentiment",
+             count(*) FILTER (WHERE a."sentiment" > ${positive})::int AS "positive",
+             count(*) FILTER (WHERE a."sentiment" BETWEEN ${negative} AND ${positive})::int AS "neutral",
+             count(*) FILTER (WHERE a."sentiment" < ${negative})::int AS "negative",
+             count(*) FILTER (WHERE a."sentiment" IS NULL)::int AS "unscored",
+             percentile_cont(${percentiles}) WITHIN GROUP (ORDER BY a."wordCount") AS "wordCountPercentiles",
+             percentile_cont(${percentiles}) WITHIN GROUP (ORDER BY a."readingTime") AS "readingTimePercentiles",
+             percentile_cont(${percentiles}) WITHIN GROUP (ORDER BY a."sentiment") AS "sentimentPercentiles"
+      FROM "Article" a
+      WHERE ${where}
+    `,
+    histogram(Prisma.sql`a."wordCount"`, options.wordCountBucketSize, where),
+    histogram(Prisma.sql`a."readingTime"`, options.readingTimeBucketSize, where),
+    // Grouped by credited author, so co-authored articles count for each of them
+    prisma.$queryRaw<AuthorStatsRow[]>`
+      SELECT au."name" AS "author", au."slug" AS "slug", count(*)::int AS "articleCount",
+             avg(a."sentiment") AS "averageSentiment",
+             coalesce(sum(a."viewCount"), 0)::int AS "totalViews"
+      FROM "Article" a
+      JOIN "_ArticleToAuthor" aa ON aa."A" = a."id"
+      JOIN "Author" au ON au."id" = aa."B"
+      WHERE ${where}
+      GROUP BY au."id", au."name", au."slug"
+      ORDER BY 3 DESC, au."name"
+      LIMIT 5
+    `,
+    prisma.$queryRaw<{ categoryId: string; count: number }[]>`
+      SELECT a."categoryId", count(*)::int AS "count"
+      FROM "Article" a
+      WHERE ${where}
+      GROUP BY a."categoryId"
+      ORDER BY 2 DESC
+    `,
+  ]);
+
+  return { summary, wordCounts, readingTimes, topAuthors, categories };
+}
+
+/**
+ * Output of one author, as named in the `author` byline of their published
+ * articles: totals and averages, first and last publish dates, category mix,
+ * most used tags and co-authors, and articles, views and sentiment per time
+ * bucket between their first and last article. Names match in any case, and
+ * joint bylines ("Jane Doe and John Roe") count in full for each author named.
+ * Returns null when no published byline names the author.
+ */
+export async function authorProfile(name: string, granularity: TimeGranularity) {
+  if (!nameKey(name)) return null;
+  const bylines = (
+    await prisma.article.groupBy({
+      by: ['author'],
+      where: { author: { contains: name.trim(), mode: 'insensitive' }, ...PUBLISHED },
+      _count: true,
+      orderBy: { _count: { author: 'desc' } },
+    })
+  ).flatMap(({ author, _count }) => {
+    const names = parseAuthorCredit(author).map((credit) => credit.name);
+    const own = names.find((credited) => sameName(credited, name));
+    return own ? [{ author, names, own, count: _count }] : [];
+  });
+  if (bylines.length === 0) return null;
+
+  const authors = bylines.map((byline) => byline.author);
+  const where = { author: { in: authors }, ...PUBLISHED };
+  const sqlWhere = Prisma.sql`${buildArticleSqlWhere()} AND a."author" IN (${Prisma.join(authors)})`;
+
+  const [totals, categories, tagCounts, activity] = await Promise.all([
+    prisma.article.aggregate({
+      where,
+      _count: true,
+      _avg: { wordCount: true, readingTime: true, viewCount: true, sentiment: true },
+      _sum: { viewCount: true },
+      _min: { publishedAt: true },
+      _max: { publishedAt: true },
+    }),
+    prisma.article.groupBy({
+      by: ['categoryId'],
+      where,
+      _count: true,
+      orderBy: { _count: { categoryId: 'desc' } },
+    }),
+    prisma.$queryRaw<{ id: string; count: number }[]>`
+      SELECT at."B" AS "id", count(*)::int AS "count"
+      FROM "Article" a
+      JOIN "_ArticleToTag" at ON at."A" = a."id"
+      WHERE ${sqlWhere}
+      GROUP BY 1
+      ORDER BY 2 DESC, 1
+      LIMIT ${PROFILE_LIST_LIMIT}
+    `,
+    timeSeries({}, sqlWhere, { granularity, groupLimit: 1 }),
+  ]);
+
+  const [categoryRows, tags] = await Promise.all([
+    prisma.category.findMany({ where: { id: { in: categories.map((c) => c.categoryId) } } }),
+    prisma.tag.findMany({ where: { id: { in: tagCounts.map((t) => t.id) } } }),
+  ]);
+
+  // Co-authors are the other names of joint bylines, spelled as first seen
+  const coAuthors = new Map<string, { name: string; articleCount: number }>();
+  for (const byline of bylines) {
+    for (const other of byline.names) {
+      if (sameName(other, name)) continue;
+      const key = nameKey(other);
+      const coAuthor = coAuthors.get(key) ?? { name: other, articleCount: 0 };
+      coAuthor.articleCount += byline.count;
+      coAuthors.set(key, coAuthor);
+    }
+  }
+
+  return {
+    // The author's name as most often written
+    name: bylines[0].own,
+    totals,
+    categories: categories.map((c) => ({
+      category: categoryRows.find((row) => row.id === c.categoryId)!,
+      count: c._count,
+    })),
+    topTags: tagCounts.map((t) => ({ tag: tags.find((tag) => tag.id === t.id)!, count: t.count })),
+    coAuthors: [...coAuthors.values()]
+      .sort((a, b) => b.articleCount - a.articleCount || a.name.localeCompare(b.name))
+      .slice(0, PROFILE_LIST_LIMIT),
+    activity: activity.points,
+  };
+}
+
+/**
+ * Article volume, sentiment, views and length per time bucket, bucketed in
+ * SQL with date_trunc (UTC; weeks start on Monday). The range is the filter's
+ * publishedAfter/publishedBefore, or the span of the matched articles where
+ * those are not set. Every bucket in the range is returned, with zero counts
+ * and views where nothing was published.
+ *
+ * With `groupBy`, there is one series for each of the `groupLimit` groups with
+ * the most articles in the range; co-authored and multi-tag articles count in
+ * each of their groups. Without it, a single series has the key ''.
+ */
+export function articleTimeSeries(filter: ArticleFilter, options: TimeSeriesOptions) {
+  return timeSeries(filter, buildArticleSqlWhere(filter), options);
+}
+
+// Time series of the articles matching `where`; `filter` only supplies the range
+async function timeSeries(filter: ArticleFilter, where: Prisma.Sql, options: TimeSeriesOptions) {
+  const { granularity, groupBy, groupLimit } = options;
+  const range = await timeRange(filter, where);
+  if (!range) return { groups: [], points: [] };
+
+  const inRange = Prisma.sql`${where} AND a."publishedAt" BETWEEN ${range.from} AND ${range.to}`;
+  const join = groupBy ? GROUP_JOINS[groupBy] : Prisma.empty;
+  const groups: GroupRow[] = groupBy
+    ? await prisma.$queryRaw<GroupRow[]>`
+        SELECT g."id" AS "key", g."name" AS "label"
+        FROM "Article" a ${join}
+        WHERE ${inRange}
+        GROUP BY g."id", g."name"
+        ORDER BY count(*) DESC, g."name"
+        LIMIT ${groupLimit}
+      `
+    : [{ key: '', label: 'All articles' }];
+  if (groups.length === 0) return { groups, points: [] };
+
+  checkPointCount(range, granularity, groups.length);
+  const unit = granularity.toLowerCase();
+  const keys = groups.map((group) => group.key);
+  const key = groupBy ? Prisma.sql`g."id"` : Prisma.sql`''`;
+  const inGroups = groupBy ? Prisma.sql`g."id" IN (${Prisma.join(keys)})` : Prisma.sql`TRUE`;
+
+  // Every group gets every bucket; left joining the matched articles onto them
+  // leaves empty buckets with a count of zero
+  const points = await prisma.$queryRaw<TimeSeriesPointRow[]>`
+    WITH matched AS (
+      SELECT ${key} AS "key", date_trunc(${unit}, a."publishedAt") AS "bucket",
+             a."sentiment", a."viewCount", a."wordCount"
+      FROM "Article" a ${join}
+      WHERE ${inRange} AND ${inGroups}
+    )
+    SELECT k."key", b."bucket",
+           count(m."bucket")::int AS "count",
+           avg(m."sentiment")::float8 AS "averageSentiment",
+           coalesce(sum(m."viewCount"), 0)::int AS "totalViews",
+           avg(m."wordCount")::float8 AS "averageWordCount"
+    FROM unnest(${keys}::text[]) AS k("key")
+    CROSS JOIN generate_series(date_trunc(${unit}, ${range.from}::timestamp),
+                               ${range.to}::timestamp,
+                               ${`1 ${unit}`}::interval) AS b("bucket")
+    LEFT JOIN matched m ON m."key" = k."key" AND m."bucket" = b."bucket"
+    GROUP BY k."key", b."bucket"
+    ORDER BY b."bucket"
+  `;
+
+  return { groups, points };
+}
+
+/**
+ * Counted views of a published article per time bucket, zero-filled, with the
+ * number of distinct visitors in each. The range defaults to the last 30 days.
+ */
+export async function viewsOverTime(articleId: string, options: ViewsOverTimeOptions) {
+  const { granularity } = options;
+  const to = options.until ? parseBound(options.until, 'until') : new Date();
+  const from = options.since
+    ? parseBound(options.since, 'since')
+    : new Date(to.getTime() - DEFAULT_VIEWS_RANGE_MS);
+  if (from > to) throw badInput('since must be before until');
+  checkPointCount({ from, to }, granularity, 1);
+
+  const article = await prisma.article.findFirst({
+    where: { id: articleId, ...PUBLISHED },
+    select: { id: true },
+  });
+  if (!article) {
+    throw new GraphQLError(`Article ${articleId} not found`, {
+      extensions: { code: 'NOT_FOUND' },
+    });
+  }
+
+  const unit = granularity.toLowerCase();
+  const step = `1 ${unit}`;
+  return prisma.$queryRaw<ViewBucketRow[]>`
+    SELECT b."bucket",
+           count(v."id")::int AS "views",
+           count(DISTINCT v."visitorHash")::int AS "visitors"
+    FROM generate_series(date_trunc(${unit}, ${from}::timestamp),
+                         ${to}::timestamp,
+                         ${step}::interval) AS b("bucket")
+    LEFT JOIN "ArticleView" v
+      ON v."articleId" = ${articleId}
+     AND v."viewedAt" >= b."bucket" AND v."viewedAt" < b."bucket" + ${step}::interval
+     AND v."viewedAt" BETWEEN ${from} AND ${to}
+    GROUP BY b."bucket"
+    ORDER BY b."bucket"
+  `;
+}
+
+// Counts per `size`-wide bucket from 0, including empty buckets up to the
+// highest value; values past MAX_HISTOGRAM_BUCKETS share the last bucket
+async function histogram(
+  column: Prisma.Sql,
+  size: number,
+  where: Prisma.Sql
+): Promise<HistogramBucket[]> {
+  const rows = await prisma.$queryRaw<HistogramRow[]>`
+    SELECT least(floor(greatest(${column}, 0) / ${size}), ${MAX_HISTOGRAM_BUCKETS - 1})::int AS "bucket",
+           count(*)::int AS "count"
+    FROM "Article" a
+    WHERE ${where}
+    GROUP BY 1
+    ORDER BY 1
+  `;
+  if (rows.length === 0) return [];
+
+  const last = rows[rows.length - 1].bucket;
+  const counts = new Map(rows.map((row) => [row.bucket, row.count]));
+  return Array.from({ length: last + 1 }, (_, bucket) => ({
+    min: bucket * size,
+    max: bucket === MAX_HISTOGRAM_BUCKETS - 1 ? null : (bucket + 1) * size,
+    count: counts.get(bucket) ?? 0,
+  }));
+}
+
+// Refuse ranges that would produce more points than MAX_TIME_SERIES_POINTS
+function checkPointCount(
+  range: { from: Date; to: Date },
+  granularity: TimeGranularity,
+  series: number
+) {
+  const buckets =
+    Math.floor((range.to.getTime() - range.from.getTime()) / BUCKET_MS[granularity]) + 1;
+  if (buckets * series > MAX_TIME_SERIES_POINTS) {
+    throw badInput(
+      `Time series would have more than ${MAX_TIME_SERIES_POINTS} points; ` +
+        'use a coarser granularity, a shorter date range or fewer groups'
+    );
+  }
+}
+
+// The filter's own date bounds, filled in from the matched articles
+async function timeRange(filter: ArticleFilter, where: Prisma.Sql) {
+  let from = filter.publishedAfter ? new Date(filter.publishedAfter) : null;
+  let to = filter.publishedBefore ? new Date(filter.publishedBefore) : null;
+  if (!from || !to) {
+    const [span] = await prisma.$queryRaw<{ first: Date | null; last: Date | null }[]>`
+      SELECT min(a."publishedAt") AS "first", max(a."publishedAt") AS "last"
+      FROM "Article" a
+      WHERE ${where}
+    `;
+    from ??= span?.first ?? null;
+    to ??= span?.last ?? null;
+  }
+  if (!from || !to) return null;
+  if (from > to) throw badInput('publishedAfter must be before publishedBefore');
+  return { from, to };
+}
+
+function sameName(a: string, b: string) {
+  return nameKey(a) === nameKey(b);
+}
+
+function nameKey(name: string) {
+  return name.replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+function parseBound(value: string, field: string) {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) throw badInput(`Invalid date for ${field}: ${value}`);
+  return date;
+}
+
+function badInput(message: string) {
+  return new GraphQLError(message, { extensions: { code: 'BAD_USER_INPUT' } });
+}
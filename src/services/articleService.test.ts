@@ -0,0 +1,155 @@
+import { Article, ArticleRevision, Prisma } from '@prisma/client';
+import { GraphQLError } from 'graphql';
+import { prisma } from '../lib/prisma';
+import { revertArticle, runBulk } from './articleService';
+import type { Viewer } from './authService';
+import { syncArticleEntities } from './entityService';
+import { ensureBaselineRevision, recordRevision } from './revisionService';
+import { syncArticleSlug } from './slugService';
+import { setArticleTags } from './tagService';
+
+jest.mock('../lib/prisma', () => ({ prisma: { $transaction: jest.fn() } }));
+jest.mock('./entityService');
+jest.mock('./revisionService');
+jest.mock('./slugService');
+jest.mock('./tagService');
+
+const editor: Viewer = { id: 'k1', name: 'Editor', role: 'EDITOR', kind: 'apiKey' };
+
+const article = {
+  id: 'a1',
+  title: 'Neuer Titel',
+  content: 'Der Stadtrat hat am Dienstag einen neuen Haushalt beschlossen.',
+  language: 'de',
+  sentiment: 0.4,
+} as Article;
+
+const revision: ArticleRevision = {
+  id: 'r1',
+  articleId: 'a1',
+  version: 1,
+  title: 'Council approves budget',
+  content:
+    'The council approved a new budget for schools and hospitals after a long and difficult debate on Tuesday.',
+  excerpt: null,
+  categoryId: 'c1',
+  tagNames: ['budget', 'schools'],
+  editedBy: null,
+  createdAt: new Date('2024-01-01T00:00:00Z'),
+};
+
+function fakeTx() {
+  return {
+    article: {
+      findFirst: jest.fn().mockResolvedValue(article),
+      update: jest.fn().mockResolvedValue(article),
+    },
+  };
+}
+
+describe('revertArticle', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.mocked(syncArticleSlug).mockResolvedValue({ ...article, title: revision.title });
+  });
+
+  it('restores the revision as an ordinary update', async () => {
+    const tx = fakeTx();
+    const db = tx as unknown as Prisma.TransactionClient;
+
+    await revertArticle(db, 'a1', revision, editor);
+
+    expect(ensureBaselineRevision).toHaveBeenCalledWith(db, 'a1');
+    expect(setArticleTags).toHaveBeenCalledWith(db, 'a1', ['budget', 'schools']);
+    expect(tx.article.update).toHaveBeenCalledWith({
+      where: { id: 'a1' },
+      data: {
+        title: revision.title,
+        content: revision.content,
+        excerpt: null,
+        categoryId: 'c1',
+        // Derived fields follow the restored text, not the current one
+        language: 'en',
+        wordCount: 18,
+        readingTime: 1,
+        sentiment: expect.any(Number),
+      },
+    });
+    expect(syncArticleEntities).toHaveBeenCalledWith(db, [
+      expect.objectContaining({ id: 'a1', title: revision.title }),
+    ]);
+    expect(recordRevision).toHaveBeenCalledWith(db, 'a1', editor);
+
+    // The baseline is taken before anything is written
+    const baselineOrder = jest.mocked(ensureBaselineRevision).mock.invocationCallOrder[0];
+    expect(baselineOrder).toBeLessThan(tx.article.update.mock.invocationCallOrder[0]);
+  });
+
+  it("rejects another article's revision without writing", async () => {
+    const tx = fakeTx();
+
+    await expect(
+      revertArticle(tx as unknown as Prisma.TransactionClient, 'a2', revision, editor)
+    ).rejects.toThrow('Revision does not belong to this article');
+    expect(tx.article.update).not.toHaveBeenCalled();
+    expect(recordRevision).not.toHaveBeenCalled();
+  });
+});
+
+describe('runBulk', () => {
+  const tx = {} as Prisma.TransactionClient;
+  const written = (id: string) => ({ id }) as Article;
+
+  beforeEach(() => {
+    jest
+      .mocked(prisma.$transaction)
+      .mockImplementation((fn: unknown) =>
+        (fn as (db: Prisma.TransactionClient) => Promise<unknown>)(tx)
+      );
+  });
+
+  it('writes valid items one by one and reports each outcome', async () => {
+    const write = jest.fn(async (_db: Prisma.TransactionClient, id: string) => {
+      if (id === 'b') throw new GraphQLError('Article not found');
+      return written(id);
+    });
+
+    const results = await runBulk(['a', 'b', 'c'], [[], [], ['Title is required']], false, write);
+
+    expect(write).toHaveBeenCalledTimes(2);
+    expect(results.map(({ status, id, errors }) => ({ status, id, errors }))).toEqual([
+      { status: 'SUCCESS', id: 'a', errors: [] },
+      { status: 'FAILED', id: null, errors: ['Article not found'] },
+      { status: 'FAILED', id: null, errors: ['Title is required'] },
+    ]);
+  });
+
+  it('writes nothing atomically when an item is invalid', async () => {
+    const write = jest.fn(async (_db: Prisma.TransactionClient, id: string) => written(id));
+
+    const results = await runBulk(['a', 'b'], [[], ['Title is required']], true, write);
+
+    expect(write).not.toHaveBeenCalled();
+    expect(results.map((result) => result.status)).toEqual(['SKIPPED', 'FAILED']);
+  });
+
+  it('blames the failing item when an atomic write rolls back', async () => {
+    const write = jest.fn(async (_db: Prisma.TransactionClient, id: string) => {
+      if (id === 'b') throw new GraphQLError('Article not found');
+      return written(id);
+    });
+
+    const results = await runBulk(['a', 'b', 'c'], [[], [], []], true, write);
+
+    expect(results.map(({ status, errors }) => ({ status, errors }))).toEqual([
+      { status: 'SKIPPED', errors: [] },
+      { status: 'FAILED', errors: ['Article not found'] },
+      { status: 'SKIPPED', errors: [] },
+    ]);
+  });
+
+  it('rejects more than the maximum number of items', async () => {
+    const items = Array.from({ length: 101 }, (_, i) => String(i));
+    await expect(runBulk(items, [], false, jest.fn())).rejects.toThrow('at most 100 items');
+  });
+});
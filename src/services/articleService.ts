@@ -0,0 +1,315 @@
+// src/services/articleService.ts
+import { Article, ArticleRevision, Prisma } from '@prisma/client';
+import { GraphQLError } from 'graphql';
+import { prisma } from '../lib/prisma';
+import { NOT_DELETED } from '../utils/articleFilter';
+import { detectLanguage, normalizeLanguage } from '../utils/language';
+import { calculateSentiment } from '../utils/metrics';
+import type { Viewer } from './authService';
+import { connectAuthors } from './authorService';
+import { syncArticleEntities } from './entityService';
+import { ensureBaselineRevision, recordRevision } from './revisionService';
+import { syncArticleSlug, withAllocatedSlug } from './slugService';
+import { resolveSource } from './sourceService';
+import { resolveTags, setArticleTags } from './tagService';
+import { translationGroupOf } from './translationService';
+
+type Tx = Prisma.TransactionClient;
+
+export interface CreateArticleInput {
+  title: string;
+  content: string;
+  excerpt?: string | null;
+  author: string;
+  categoryId: string;
+  tagNames?: string[] | null;
+  source?: string | null;
+  publishedAt?: string | null;
+  language?: string | null; // detected from the text when omitted
+  translationOf?: string | null; // id of an article this one translates
+}
+
+export interface UpdateArticleInput {
+  title?: string | null;
+  content?: string | null;
+  excerpt?: string | null;
+  categoryId?: string | null;
+  tagNames?: string[] | null;
+  language?: string | null;
+}
+
+export type BulkItemStatus = 'SUCCESS' | 'FAILED' | 'SKIPPED';
+
+export interface BulkItemResult {
+  index: number;
+  status: BulkItemStatus;
+  id: string | null;
+  article: Article | null;
+  errors: string[];
+}
+
+// Items accepted by one bulk mutation
+export const MAX_BULK_ITEMS = 100;
+
+// Atomic batches write every item in one transaction, which needs more time
+// than Prisma's 5 second default
+const BULK_TRANSACTION_TIMEOUT_MS = 60 * 1000;
+
+const WORDS_PER_MINUTE = 200;
+
+/**
+ * Fields computed from the content. Every write path uses this so single and
+ * bulk writes store the same values.
+ */
+export function derivedFields(content: string, language: string | null) {
+  const wordCount = content.split(/\s+/).length;
+  return {
+    wordCount,
+    readingTime: Math.ceil(wordCount / WORDS_PER_MINUTE),
+    sentiment: calculateSentiment(content, language),
+  };
+}
+
+/**
+ * Validation errors for each input, in order; an empty list means valid.
+ * Checks that referenced categories exist so bad items fail before writing.
+ */
+export async function validateCreateInputs(inputs: CreateArticleInput[]): Promise<string[][]> {
+  const [missing, missingOriginals] = await Promise.all([
+    missingCategories(inputs.map((input) => input.categoryId)),
+    missingArticles(inputs.map((input) => input.translationOf)),
+  ]);
+
+  return inputs.map((input) => {
+    const errors = [...requireText(input, ['title', 'content', 'author'])];
+    if (input.publishedAt && Number.isNaN(new Date(input.publishedAt).getTime())) {
+      errors.push(`Invalid date for publishedAt: ${input.publishedAt}`);
+    }
+    if (missing.has(input.categoryId)) errors.push(`Category ${input.categoryId} not found`);
+    errors.push(...languageErrors(input.language));
+    if (input.translationOf && missingOriginals.has(input.translationOf)) {
+      errors.push(`Article ${input.translationOf} not found`);
+    }
+    return errors;
+  });
+}
+
+export async function validateUpdateInputs(inputs: UpdateArticleInput[]): Promise<string[][]> {
+  const missing = await missingCategories(inputs.map((input) => input.categoryId));
+
+  return inputs.map((input) => {
+    const present = (['title', 'content'] as const).filter((field) => input[field] != null);
+    const errors = [...requireText(input, present)];
+    if (input.categoryId && missing.has(input.categoryId)) {
+      errors.push(`Category ${input.categoryId} not found`);
+    }
+    errors.push(...languageErrors(input.language));
+    return errors;
+  });
+}
+
+/**
+ * Create a draft article with its slug, authors, source, tags, language,
+ * entities and derived fields, and record its first revision. Expects
+ * validated input.
+ */
+export async function createArticle(tx: Tx, input: CreateArticleInput, editor: Viewer | null) {
+  const { tagNames, publishedAt, translationOf, ...data } = input;
+  const language = data.language
+    ? normalizeLanguage(data.language)
+    : detectLanguage(`${data.title}\n${data.content}`);
+
+  const fields = {
+    ...data,
+    ...derivedFields(data.content, language),
+    language,
+    translationGroup: translationOf ? await translationGroupOf(tx, translationOf) : null,
+    authors: await connectAuthors(tx, data.author),
+    sourceId: (await resolveSource(tx, { name: data.source }))?.id,
+    tags: { connect: (await resolveTags(tx, tagNames ?? [])).map((tag) => ({ id: tag.id })) },
+    publishedAt: publishedAt ? new Date(publishedAt) : new Date(),
+  };
+  const created = await withAllocatedSlug(tx, data.title, (slug) =>
+    tx.article.create({ data: { ...fields, slug } })
+  );
+  await syncArticleEntities(tx, [created]);
+  await recordRevision(tx, created.id, editor);
+  return created;
+}
+
+/**
+ * Apply an edit, regenerating the slug, entities and derived fields when the
+ * title or content changed, and record it as a revision. New content has its
+ * language detected again unless one is given. Expects validated input.
+ */
+export async function updateArticle(
+  tx: Tx,
+  id: string,
+  input: UpdateArticleInput,
+  editor: Viewer | null
+) {
+  const { tagNames, title, content, excerpt, categoryId } = input;
+  const existing = await tx.article.findFirst({ where: { id, ...NOT_DELETED } });
+  if (!existing) throw new GraphQLError('Article not found');
+
+  let language = existing.language;
+  if (input.language) language = normalizeLanguage(input.language);
+  else if (content != null) language = detectLanguage(`${title ?? existing.title}\n${content}`);
+
+  // Omitted fields are left unchanged; only the excerpt can be cleared with null
+  const data: Prisma.ArticleUncheckedUpdateInput = {
+    ...(title != null && { title }),
+    ...(content != null && { content }),
+    ...(language !== existing.language && { language }),
+    // Sentiment depends on the language as well as the content
+    ...((content != null || language !== existing.language) &&
+      derivedFields(content ?? existing.content, language)),
+    ...(excerpt !== undefined && { excerpt }),
+    ...(categoryId != null && { categoryId }),
+  };
+
+  await ensureBaselineRevision(tx, id);
+  if (tagNames) await setArticleTags(tx, id, tagNames);
+  await tx.article.update({ where: { id }, data });
+  const updated = await syncArticleSlug(tx, id);
+  if (title != null || content != null) await syncArticleEntities(tx, [updated]);
+  await recordRevision(tx, id, editor);
+  return updated;
+}
+
+/**
+ * Restore the title, content, excerpt, category and tags an article had at
+ * `revision`. This is an ordinary update, so derived fields and entities are
+ * recomputed and the revert is itself recorded as a revision.
+ */
+export async function revertArticle(
+  tx: Tx,
+  id: string,
+  revision: ArticleRevision,
+  editor: Viewer | null
+) {
+  if (revision.articleId !== id) {
+    throw new GraphQLError('Revision does not belong to this article', {
+      extensions: { code: 'BAD_USER_INPUT' },
+    });
+  }
+  const { title, content, excerpt, categoryId, tagNames } = revision;
+  return updateArticle(tx, id, { title, content, excerpt, categoryId, tagNames }, editor);
+}
+
+/**
+ * Move an article to the trash. Already trashed articles are left as they are.
+ */
+export async function trashArticle(tx: Tx, id: string) {
+  const article = await tx.article.findUnique({ where: { id } });
+  if (!article) throw new GraphQLError('Article not found');
+  if (article.deletedAt) return article;
+  return tx.article.update({ where: { id }, data: { deletedAt: new Date() } });
+}
+
+/**
+ * Run `write` for every item of a bulk mutation. Items that failed validation
+ * are reported without being written. With `atomic`, all items are written in
+ * one transaction and nothing is kept unless every item succeeds; otherwise
+ * each item commits on its own.
+ */
+export async function runBulk<T>(
+  items: T[],
+  validationErrors: string[][],
+  atomic: boolean,
+  write: (tx: Tx, item: T) => Promise<Article | null>
+): Promise<BulkItemResult[]> {
+  if (items.length > MAX_BULK_ITEMS) {
+    throw new GraphQLError(`Bulk mutations accept at most ${MAX_BULK_ITEMS} items`, {
+      extensions: { code: 'BAD_USER_INPUT' },
+    });
+  }
+
+  const results: BulkItemResult[] = items.map((_, index) => ({
+    index,
+    status: validationErrors[index].length > 0 ? 'FAILED' : 'SKIPPED',
+    id: null,
+    article: null,
+    errors: validationErrors[index],
+  }));
+  const pending = results.filter((result) => result.status === 'SKIPPED');
+
+  if (!atomic) {
+    for (const result of pending) {
+      try {
+        const article = await prisma.$transaction((tx) => write(tx, items[result.index]));
+        Object.assign(result, { status: 'SUCCESS', id: article?.id ?? null, article });
+      } catch (error) {
+        Object.assign(result, { status: 'FAILED', errors: [itemErrorMessage(error)] });
+      }
+    }
+    return results;
+  }
+
+  // All or nothing: one invalid item means nothing is written
+  if (pending.length < items.length) return results;
+
+  let current: BulkItemResult | undefined;
+  try {
+    const articles = await prisma.$transaction(
+      async (tx) => {
+        const written: (Article | null)[] = [];
+        for (const result of pending) {
+          current = result;
+          written.push(await write(tx, items[result.index]));
+        }
+        return written;
+      },
+      { timeout: BULK_TRANSACTION_TIMEOUT_MS }
+    );
+    pending.forEach((result, i) => {
+      Object.assign(result, {
+        status: 'SUCCESS',
+        id: articles[i]?.id ?? null,
+        article: articles[i],
+      });
+    });
+  } catch (error) {
+    if (current) Object.assign(current, { status: 'FAILED', errors: [itemErrorMessage(error)] });
+  }
+  return results;
+}
+
+async function missingCategories(ids: (string | null | undefined)[]) {
+  const wanted = [...new Set(ids.filter((id): id is string => Boolean(id)))];
+  const found = await prisma.category.findMany({
+    where: { id: { in: wanted } },
+    select: { id: true },
+  });
+  return new Set(wanted.filter((id) => !found.some((category) => category.id === id)));
+}
+
+async function missingArticles(ids: (string | null | undefined)[]) {
+  const wanted = [...new Set(ids.filter((id): id is string => Boolean(id)))];
+  const found = await prisma.article.findMany({
+    where: { id: { in: wanted }, ...NOT_DELETED },
+    select: { id: true },
+  });
+  return new Set(wanted.filter((id) => !found.some((article) => article.id === id)));
+}
+
+function languageErrors(language: string | null | undefined) {
+  if (language == null || normalizeLanguage(language)) return [];
+  return [`Invalid language: ${language}; expected an ISO 639-1 code such as "en"`];
+}
+
+function requireText<T extends object>(input: T, fields: readonly (keyof T & string)[]) {
+  return fields
+    .filter((field) => typeof input[field] !== 'string' || !(input[field] as string).trim())
+    .map((field) => `${field} must not be empty`);
+}
+
+// Expected failures carry their message; anything else is logged and hidden
+function itemErrorMessage(error: unknown) {
+  if (error instanceof GraphQLError) return error.message;
+  if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+    return 'A unique field conflicts with an existing article';
+  }
+  console.error('Bulk article write failed:', error);
+  return 'Internal error while writing this item';
+}
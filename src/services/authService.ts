@@ -0,0 +1,155 @@
+// src/services/authService.ts
+import { createHash, randomBytes } from 'crypto';
+import type { IncomingHttpHeaders } from 'http';
+import type { NextFunction, Request, Response } from 'express';
+import jwt from 'jsonwebtoken';
+import { GraphQLError } from 'graphql';
+import type { Role } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+
+export type { Role };
+
+export interface Viewer {
+  id: string;
+  name: string;
+  role: Role;
+  kind: 'apiKey' | 'jwt';
+}
+
+// Higher rank includes every permission of the lower ones
+const ROLE_RANK: Record<Role, number> = {
+  READER: 1,
+  EDITOR: 2,
+  ADMIN: 3,
+};
+
+const API_KEY_PREFIX = 'nk_';
+const DISPLAY_PREFIX_LENGTH = 10;
+
+// Avoid a write on every request just to track key usage
+const LAST_USED_RESOLUTION_MS = 5 * 60 * 1000;
+
+export function hasRole(viewer: Viewer | null | undefined, role: Role): boolean {
+  return viewer != null && ROLE_RANK[viewer.role] >= ROLE_RANK[role];
+}
+
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Create a new API key. The plaintext key is only returned here; the
+ * database keeps its hash and a short display prefix.
+ */
+export async function issueApiKey(name: string, role: Role) {
+  const key = API_KEY_PREFIX + randomBytes(32).toString('base64url');
+  const apiKey = await prisma.apiKey.create({
+    data: {
+      name,
+      role,
+      prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+      keyHash: hashApiKey(key),
+    },
+  });
+  return { apiKey, key };
+}
+
+/**
+ * Resolve the caller from request headers. Accepts `x-api-key: <key>`,
+ * `Authorization: ApiKey <key>` or `Authorization: Bearer <jwt>` signed with
+ * JWT_SECRET. Returns null when no credentials are sent and throws
+ * UNAUTHENTICATED when they are invalid.
+ */
+export async function authenticate(headers: IncomingHttpHeaders): Promise<Viewer | null> {
+  const header = headers.authorization;
+  const apiKeyHeader = headers['x-api-key'];
+
+  if (typeof apiKeyHeader === 'string' && apiKeyHeader) {
+    return authenticateApiKey(apiKeyHeader);
+  }
+  if (!header) return null;
+
+  const [scheme, credentials] = header.split(' ');
+  if (scheme?.toLowerCase() === 'apikey' && credentials) {
+    return authenticateApiKey(credentials);
+  }
+  if (scheme?.toLowerCase() === 'bearer' && credentials) {
+    return credentials.startsWith(API_KEY_PREFIX)
+      ? authenticateApiKey(credentials)
+      : authenticateJwt(credentials);
+  }
+
+  throw unauthenticated('Unsupported authorization scheme');
+}
+
+async function authenticateApiKey(key: string): Promise<Viewer> {
+  const apiKey = await prisma.apiKey.findUnique({ where: { keyHash: hashApiKey(key) } });
+  if (!apiKey || apiKey.revokedAt) {
+    throw unauthenticated('Invalid API key');
+  }
+
+  const now = Date.now();
+  if (!apiKey.lastUsedAt || now - apiKey.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+    prisma.apiKey
+      .update({ where: { id: apiKey.id }, data: { lastUsedAt: new Date(now) } })
+      .catch((error) => console.warn('Failed to record API key usage:', error.message));
+  }
+
+  return { id: apiKey.id, name: apiKey.name, role: apiKey.role, kind: 'apiKey' };
+}
+
+function authenticateJwt(token: string): Viewer {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) {
+    throw unauthenticated('JWT authentication is not configured');
+  }
+
+  let claims: jwt.JwtPayload;
+  try {
+    const decoded = jwt.verify(token, secret, { algorithms: ['HS256'] });
+    if (typeof decoded === 'string') throw new Error('Unexpected token payload');
+    claims = decoded;
+  } catch {
+    throw unauthenticated('Invalid or expired token');
+  }
+
+  const role = claims.role as Role;
+  if (!claims.sub || !Object.hasOwn(ROLE_RANK, role)) {
+    throw unauthenticated('Token is missing a subject or a valid role');
+  }
+
+  return { id: claims.sub, name: claims.name ?? claims.sub, role, kind: 'jwt' };
+}
+
+export function unauthenticated(message = 'Authentication required') {
+  return new GraphQLError(message, {
+    extensions: { code: 'UNAUTHENTICATED', http: { status: 401 } },
+  });
+}
+
+export function forbidden(role: Role) {
+  return new GraphQLError(`This operation requires the ${role} role`, {
+    extensions: { code: 'FORBIDDEN', http: { status: 403 } },
+  });
+}
+
+/**
+ * Express middleware enforcing a minimum role on non-GraphQL routes
+ */
+export function requireRole(role: Role) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const viewer = await authenticate(req.headers);
+      if (!viewer) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+      if (!hasRole(viewer, role)) {
+        return res.status(403).json({ error: `This operation requires the ${role} role` });
+      }
+      return next();
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : 'Authentication failed';
+      return res.status(401).json({ error: message });
+    }
+  };
+}
@@ -0,0 +1,89 @@
+// src/services/authorService.ts
+import { createHash } from 'crypto';
+import { Prisma } from '@prisma/client';
+import { AuthorCredit, parseAuthorCredit } from '../utils/authorNames';
+import { slugify } from './slugService';
+
+type Db = Prisma.TransactionClient;
+
+/**
+ * Author slug for a display name. Names that leave nothing to slugify get a
+ * stable hash instead, so they don't all collapse into one author.
+ */
+export function authorSlug(name: string) {
+  const hash = createHash('sha1').update(name.toLowerCase()).digest('hex').slice(0, 10);
+  return slugify(name, `author-${hash}`);
+}
+
+/**
+ * Find or create the authors credited in each byline. Returns the author ids
+ * for every byline, in credit order. Names that slug the same ("José García"
+ * and "Jose Garcia") are treated as one person.
+ */
+export async function resolveAuthorCredits(
+  db: Db,
+  credits: string[]
+): Promise<Map<string, string[]>> {
+  const parsed = new Map(credits.map((credit) => [credit, parseAuthorCredit(credit)]));
+
+  const bySlug = new Map<string, AuthorCredit>();
+  for (const authors of parsed.values()) {
+    for (const author of authors) {
+      const slug = authorSlug(author.name);
+      if (!bySlug.has(slug)) bySlug.set(slug, author);
+    }
+  }
+  if (bySlug.size === 0) return new Map(credits.map((credit) => [credit, []]));
+
+  await db.author.createMany({
+    data: [...bySlug].map(([slug, { name, affiliation }]) => ({ slug, name, affiliation })),
+    skipDuplicates: true,
+  });
+  const rows = await db.author.findMany({
+    where: { slug: { in: [...bySlug.keys()] } },
+    select: { id: true, slug: true },
+  });
+  const ids = new Map(rows.map((row) => [row.slug, row.id]));
+
+  return new Map(
+    [...parsed].map(([credit, authors]) => [
+      credit,
+      [...new Set(authors.map((author) => authorId(ids, author.name)))],
+    ])
+  );
+}
+
+/**
+ * `authors` relation input for a single byline, e.g. in `article.create`.
+ */
+export async function connectAuthors(db: Db, credit: string) {
+  const ids = (await resolveAuthorCredits(db, [credit])).get(credit) ?? [];
+  return { connect: ids.map((id) => ({ id })) };
+}
+
+/**
+ * Credit existing articles to the authors parsed from their `author` byline.
+ * Links that already exist are kept, so this is safe to re-run.
+ */
+export async function linkArticleAuthors(db: Db, articles: { id: string; author: string }[]) {
+  const credits = await resolveAuthorCredits(
+    db,
+    articles.map((article) => article.author)
+  );
+  const links = articles.flatMap((article) =>
+    (credits.get(article.author) ?? []).map((authorId) => Prisma.sql`(${article.id}, ${authorId})`)
+  );
+  if (links.length === 0) return 0;
+
+  return db.$executeRaw`
+    INSERT INTO "_ArticleToAuthor" ("A", "B") VALUES ${Prisma.join(links)}
+    ON CONFLICT DO NOTHING
+  `;
+}
+
+// Credited authors all exist by now unless one was deleted concurrently
+function authorId(ids: Map<string, string>, name: string) {
+  const id = ids.get(authorSlug(name));
+  if (!id) throw new Error(`Author "${name}" disappeared while crediting it`);
+  return id;
+}
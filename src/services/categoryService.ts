@@ -0,0 +1,76 @@
+// src/services/categoryService.ts
+import type { Category } from '@prisma/client';
+import { GraphQLError } from 'graphql';
+import { prisma } from '../lib/prisma';
+import { MAX_CATEGORY_DEPTH } from '../utils/categoryTree';
+
+type CategoryLookup = (id: string) => Promise<Category | null | undefined>;
+
+const findCategory: CategoryLookup = (id) => prisma.category.findUnique({ where: { id } });
+
+/**
+ * The category and its ancestors, root first: the breadcrumb trail.
+ */
+export async function categoryPath(category: Category, load: CategoryLookup = findCategory) {
+  const path = [category];
+  let current = category;
+  while (current.parentId && path.length < MAX_CATEGORY_DEPTH) {
+    const parent = await load(current.parentId);
+    if (!parent) break;
+    path.unshift(parent);
+    current = parent;
+  }
+  return path;
+}
+
+/**
+ * Whether `categoryId` is `ancestorId` or sits somewhere below it.
+ */
+export async function isInSubtree(categoryId: string, ancestorId: string) {
+  const category = await findCategory(categoryId);
+  if (!category) return false;
+  const path = await categoryPath(category);
+  return path.some((c) => c.id === ancestorId);
+}
+
+/**
+ * Move a category (with everything below it) under `parentId`, or to the top
+ * level when `parentId` is null. Rejects moves that would create a cycle or
+ * make the tree deeper than MAX_CATEGORY_DEPTH.
+ */
+export async function setCategoryParent(id: string, parentId: string | null) {
+  const categories = await prisma.category.findMany({ select: { id: true, parentId: true } });
+  const byId = new Map(categories.map((c) => [c.id, c]));
+
+  if (!byId.has(id)) throw notFound(id);
+  if (parentId && !byId.has(parentId)) throw notFound(parentId);
+
+  if (parentId) {
+    // Depth of the new parent, checking we don't walk through the category itself
+    let parentDepth = 0;
+    for (let current = byId.get(parentId); current; current = byId.get(current.parentId ?? '')) {
+      if (current.id === id) throw badInput('A category cannot be moved below itself');
+      parentDepth++;
+    }
+
+    if (parentDepth + subtreeHeight(id, categories) > MAX_CATEGORY_DEPTH) {
+      throw badInput(`Categories can be nested at most ${MAX_CATEGORY_DEPTH} levels deep`);
+    }
+  }
+
+  return prisma.category.update({ where: { id }, data: { parentId } });
+}
+
+// Levels in the subtree rooted at `id`, counting `id` itself
+function subtreeHeight(id: string, categories: { id: string; parentId: string | null }[]): number {
+  const children = categories.filter((c) => c.parentId === id);
+  return 1 + Math.max(0, ...children.map((child) => subtreeHeight(child.id, categories)));
+}
+
+function notFound(id: string) {
+  return new GraphQLError(`Category ${id} not found`, { extensions: { code: 'NOT_FOUND' } });
+}
+
+function badInput(message: string) {
+  return new GraphQLError(message, { extensions: { code: 'BAD_USER_INPUT' } });
+}
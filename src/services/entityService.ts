@@ -0,0 +1,81 @@
+// src/services/entityService.ts
+import { EntityType, Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { entityKey, extractEntities } from '../utils/entityExtraction';
+
+type Db = Prisma.TransactionClient;
+
+export interface EntitySearch {
+  type?: EntityType | null;
+  prefix?: string | null;
+  limit: number;
+}
+
+/**
+ * Extract the people, organizations and places each article mentions and
+ * replace its entity links with them. Entities are created on first mention.
+ * Returns the number of links written.
+ */
+export async function syncArticleEntities(
+  db: Db,
+  articles: { id: string; title: string; content: string }[]
+) {
+  if (articles.length === 0) return 0;
+  const extracted = articles.map((article) => ({
+    articleId: article.id,
+    entities: extractEntities(article.title, article.content),
+  }));
+
+  const wanted = new Map(
+    extracted
+      .flatMap(({ entities }) => entities)
+      .map((entity) => [`${entity.type}:${entityKey(entity.name)}`, entity])
+  );
+  const ids = new Map<string, string>();
+  if (wanted.size > 0) {
+    await db.entity.createMany({
+      data: [...wanted.values()].map(({ type, name }) => ({
+        type,
+        name,
+        normalizedName: entityKey(name),
+      })),
+      skipDuplicates: true,
+    });
+    const rows = await db.entity.findMany({
+      where: { normalizedName: { in: [...wanted.values()].map(({ name }) => entityKey(name)) } },
+      select: { id: true, type: true, normalizedName: true },
+    });
+    for (const row of rows) ids.set(`${row.type}:${row.normalizedName}`, row.id);
+  }
+
+  await db.articleEntity.deleteMany({
+    where: { articleId: { in: articles.map((article) => article.id) } },
+  });
+  const { count } = await db.articleEntity.createMany({
+    data: extracted.flatMap(({ articleId, entities }) =>
+      entities.map((entity) => ({
+        articleId,
+        entityId: ids.get(`${entity.type}:${entityKey(entity.name)}`)!,
+        mentions: entity.mentions,
+      }))
+    ),
+    skipDuplicates: true,
+  });
+  return count;
+}
+
+/**
+ * Entities whose name starts with `prefix`, most written about first. Meant
+ * for finding an entity to filter articles by.
+ */
+export function findEntities({ type, prefix, limit }: EntitySearch) {
+  const key = prefix ? entityKey(prefix) : '';
+  return prisma.entity.findMany({
+    where: {
+      ...(type && { type }),
+      ...(key && { normalizedName: { startsWith: key } }),
+    },
+    orderBy: [{ articles: { _count: 'desc' } }, { name: 'asc' }],
+    take: limit,
+  });
+}
@@ -0,0 +1,211 @@
+// src/services/mediaService.ts
+import { randomUUID } from 'crypto';
+import { Media, MediaType, Prisma } from '@prisma/client';
+import { GraphQLError } from 'graphql';
+import { prisma } from '../lib/prisma';
+import { storage } from '../lib/storage';
+import { NOT_DELETED } from '../utils/articleFilter';
+
+type Db = Prisma.TransactionClient;
+
+export interface MediaDetails {
+  caption?: string | null;
+  credit?: string | null;
+  altText?: string | null;
+  width?: number | null;
+  height?: number | null;
+  isLead?: boolean | null;
+}
+
+export interface MediaInput extends MediaDetails {
+  type: MediaType;
+  url: string;
+}
+
+export interface UploadedFile {
+  buffer: Buffer;
+  mimetype: string;
+}
+
+// Upload size limit, in bytes
+export const MAX_UPLOAD_BYTES = (Number(process.env.MEDIA_MAX_UPLOAD_MB) || 20) * 1024 * 1024;
+
+// Content types accepted for upload, and the extension stored files get;
+// anything else is rejected. The client's file name is never used, so a file
+// cannot be stored under an extension that makes it served as something else.
+const UPLOAD_TYPES: Record<string, { type: MediaType; extension: string }> = {
+  'image/jpeg': { type: MediaType.IMAGE, extension: '.jpg' },
+  'image/png': { type: MediaType.IMAGE, extension: '.png' },
+  'image/gif': { type: MediaType.IMAGE, extension: '.gif' },
+  'image/webp': { type: MediaType.IMAGE, extension: '.webp' },
+  'image/avif': { type: MediaType.IMAGE, extension: '.avif' },
+  'video/mp4': { type: MediaType.VIDEO, extension: '.mp4' },
+  'video/webm': { type: MediaType.VIDEO, extension: '.webm' },
+};
+
+/**
+ * Whether a stored upload is an image, going by the extension it was stored
+ * under. Anything else is served as a download rather than displayed inline.
+ */
+export function isStoredImage(storageKey: string) {
+  return Object.values(UPLOAD_TYPES).some(
+    ({ type, extension }) => type === MediaType.IMAGE && storageKey.endsWith(extension)
+  );
+}
+
+/**
+ * Attach media hosted elsewhere (an image URL, a video, an embeddable page)
+ * to the end of the article's media.
+ */
+export async function addMedia(articleId: string, input: MediaInput) {
+  const url = input.url.trim();
+  if (!/^https?:\/\//i.test(url)) throw badInput(`Invalid media URL: ${input.url}`);
+  checkDetails(input);
+
+  return prisma.$transaction(async (tx) => {
+    await findArticle(tx, articleId);
+    return appendMedia(tx, articleId, { ...input, url });
+  });
+}
+
+/**
+ * Store an uploaded file with the storage adapter and attach it to the end of
+ * the article's media. The file is removed again if the row cannot be saved.
+ */
+export async function uploadMedia(articleId: string, file: UploadedFile, details: MediaDetails) {
+  const accepted = Object.hasOwn(UPLOAD_TYPES, file.mimetype) ? UPLOAD_TYPES[file.mimetype] : null;
+  if (!accepted) throw badInput(`Unsupported file type: ${file.mimetype}`);
+  checkDetails(details);
+  await findArticle(prisma, articleId);
+
+  const storageKey = `${articleId}/${randomUUID()}${accepted.extension}`;
+  await storage.put(storageKey, file.buffer, file.mimetype);
+
+  try {
+    return await prisma.$transaction((tx) =>
+      appendMedia(tx, articleId, {
+        ...details,
+        type: accepted.type,
+        url: storage.url(storageKey),
+        storageKey,
+        mimeType: file.mimetype,
+      })
+    );
+  } catch (error) {
+    await storage.delete(storageKey).catch(() => undefined);
+    throw error;
+  }
+}
+
+export async function updateMedia(id: string, details: MediaDetails) {
+  checkDetails(details);
+  return prisma.$transaction(async (tx) => {
+    const media = await findMedia(tx, id);
+    if (details.isLead) await clearLead(tx, media.articleId);
+    return tx.media.update({
+      where: { id },
+      data: { ...details, isLead: details.isLead ?? undefined },
+    });
+  });
+}
+
+/**
+ * Put the article's media in the order of `mediaIds`, which must list each of
+ * them exactly once.
+ */
+export async function reorderMedia(articleId: string, mediaIds: string[]) {
+  return prisma.$transaction(async (tx) => {
+    await findArticle(tx, articleId);
+    const current = await tx.media.findMany({ where: { articleId }, select: { id: true } });
+    const unique = new Set(mediaIds);
+    if (
+      unique.size !== mediaIds.length ||
+      unique.size !== current.length ||
+      current.some((media) => !unique.has(media.id))
+    ) {
+      throw badInput('mediaIds must list every media item of the article exactly once');
+    }
+
+    for (const [position, id] of mediaIds.entries()) {
+      await tx.media.update({ where: { id }, data: { position } });
+    }
+    return tx.media.findMany({ where: { articleId }, orderBy: { position: 'asc' } });
+  });
+}
+
+/**
+ * Detach the media item, deleting its file when it was uploaded. Later items
+ * move up so positions stay contiguous.
+ */
+export async function removeMedia(id: string) {
+  const media = await prisma.$transaction(async (tx) => {
+    const media = await findMedia(tx, id);
+    await tx.media.delete({ where: { id } });
+    await tx.media.updateMany({
+      where: { articleId: media.articleId, position: { gt: media.position } },
+      data: { position: { decrement: 1 } },
+    });
+    return media;
+  });
+
+  await deleteStoredFiles([media]);
+  return media;
+}
+
+/**
+ * Delete the uploaded files of media rows that are gone. Failures are logged,
+ * since the rows no longer reference the files.
+ */
+export async function deleteStoredFiles(media: Pick<Media, 'storageKey'>[]) {
+  for (const { storageKey } of media) {
+    if (!storageKey) continue;
+    await storage
+      .delete(storageKey)
+      .catch((error) => console.warn(`Failed to delete media file ${storageKey}:`, error.message));
+  }
+}
+
+async function appendMedia(
+  tx: Db,
+  articleId: string,
+  data: MediaInput & { storageKey?: string; mimeType?: string }
+) {
+  const position = await tx.media.count({ where: { articleId } });
+  if (data.isLead) await clearLead(tx, articleId);
+  return tx.media.create({
+    data: { ...data, articleId, position, isLead: data.isLead ?? false },
+  });
+}
+
+function clearLead(tx: Db, articleId: string) {
+  return tx.media.updateMany({ where: { articleId, isLead: true }, data: { isLead: false } });
+}
+
+function checkDetails(details: MediaDetails) {
+  for (const field of ['width', 'height'] as const) {
+    const value = details[field];
+    if (value != null && (!Number.isInteger(value) || value <= 0)) {
+      throw badInput(`${field} must be a positive integer`);
+    }
+  }
+}
+
+async function findArticle(db: Db, id: string) {
+  const article = await db.article.findFirst({ where: { id, ...NOT_DELETED } });
+  if (!article) {
+    throw new GraphQLError(`Article ${id} not found`, { extensions: { code: 'NOT_FOUND' } });
+  }
+  return article;
+}
+
+async function findMedia(db: Db, id: string) {
+  const media = await db.media.findUnique({ where: { id } });
+  if (!media) {
+    throw new GraphQLError(`Media ${id} not found`, { extensions: { code: 'NOT_FOUND' } });
+  }
+  return media;
+}
+
+function badInput(message: string) {
+  return new GraphQLError(message, { extensions: { code: 'BAD_USER_INPUT' } });
+}
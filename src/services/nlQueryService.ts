@@ -2,9 +2,10 @@
 import OpenAI from 'openai';
 import { z } from 'zod';
 import { graphql } from 'graphql';
-import { makeExecutableSchema } from '@graphql-tools/schema';
-import { readFileSync } from 'fs';
-import { join } from 'path';
+import { createSchema } from '../graphql/schema';
+import { queryCostErrorForSource } from '../graphql/queryCost';
+import { createLoaders } from '../context';
+import { prisma } from '../lib/prisma';
 
 // Schema for structured output from LLM
 const GraphQLQuerySchema = z.object({
@@ -22,13 +23,9 @@ export class NLQueryService {
       apiKey: process.env.OPENAI_API_KEY,
     });
 
-    // Load GraphQL schema
-    const typeDefs = readFileSync(join(__dirname, '../graphql/schema.graphql'), 'utf-8');
-
-    this.schema = makeExecutableSchema({
-      typeDefs,
-      resolvers,
-    });
+    // Load GraphQL schema. Generated queries run without a viewer, so fields
+    // guarded by @requiresRole are rejected.
+    this.schema = createSchema(resolvers);
   }
 
   async processQuery(naturalLanguageQuery: string) {
@@ -70,11 +67,20 @@ export class NLQueryService {
       'articles', 
       'searchArticles',
       'articleStats',
+      'articleTimeSeries',
+      'viewsOverTime',
+      'authorProfile',
       'trendingArticles',
       'recommendedArticles',
       'categories',
       'category',
-      'tags'
+      'tags',
+      'authors',
+      'author',
+      'sources',
+      'source',
+      'entities',
+      'entity',
     ];
 
     // Check if query uses only allowed root queries
@@ -135,12 +141,21 @@ AVAILABLE ROOT QUERIES (use EXACTLY as shown):
 1. article(id: ID, slug: String): Article
 2. articles(filter: ArticleFilter, sort: ArticleSort, limit: Int = 10, offset: Int = 0): [Article!]!
 3. searchArticles(query: String!, filter: ArticleFilter, limit: Int = 10): SearchResult!
-4. articleStats(filter: ArticleFilter): ArticleStats!
-5. trendingArticles(limit: Int = 5): [Article!]!  # limit parameter is optional
+4. articleStats(filter: ArticleFilter, sentimentThresholds: SentimentThresholds, histogram: HistogramOptions): ArticleStats!  # sentimentThresholds: { negative: -0.3, positive: 0.3 }, histogram: { wordCountBucketSize: 250, readingTimeBucketSize: 1 }
+5. trendingArticles(categoryId: ID, includeSubcategories: Boolean = false, window: TrendingWindow = DAY, limit: Int = 5): [Article!]!  # all parameters are optional; window: HOUR|DAY|WEEK
 6. recommendedArticles(articleId: ID!, limit: Int = 5): [Article!]!
 7. categories: [Category!]!
 8. category(slug: String!): Category
 9. tags(limit: Int = 50): [Tag!]!
+10. authors(search: String, limit: Int = 50, offset: Int = 0): [Author!]!
+11. author(slug: String!): Author
+12. sources(country: String, language: String): [Source!]!
+13. source(slug: String!): Source
+14. entities(type: EntityType, prefix: String, limit: Int = 20): [Entity!]!  # type: PERSON|ORGANIZATION|PLACE
+15. entity(id: ID!): Entity
+16. articleTimeSeries(filter: ArticleFilter, granularity: TimeGranularity = DAY, metrics: [TimeSeriesMetric!], groupBy: TimeSeriesGroupBy, groupLimit: Int = 10): ArticleTimeSeries!  # granularity: HOUR|DAY|WEEK|MONTH|YEAR, metrics: COUNT|AVERAGE_SENTIMENT|TOTAL_VIEWS|AVERAGE_WORD_COUNT, groupBy: CATEGORY|SOURCE|AUTHOR|TAG
+17. viewsOverTime(articleId: ID!, granularity: TimeGranularity = DAY, since: String, until: String): [ViewBucket!]!  # ViewBucket: { bucket, views, visitors }; range defaults to the last 30 days
+18. authorProfile(name: String!, granularity: TimeGranularity = MONTH): AuthorProfile  # one author's name as in bylines
 
 EXACT Article fields (use only these):
 {
@@ -150,12 +165,30 @@ EXACT Article fields (use only these):
   content
   excerpt
   author          # STRING! - select directly, NO subfields
+  authors {       # ARRAY of objects - requires subfields
+    name
+    slug
+  }
   publishedAt     # STRING! - select directly, NO subfields
   source          # STRING - select directly, NO subfields
+  publisher {     # OBJECT - may be null, requires subfields
+    name
+    slug
+    country
+  }
   wordCount       # INT! - select directly, NO subfields
   readingTime     # INT! - select directly, NO subfields
   sentiment       # FLOAT - select directly, NO subfields
   viewCount       # INT! - select directly, NO subfields
+  language        # STRING - ISO 639-1 code such as "en", select directly
+  leadImage {     # OBJECT - may be null, requires subfields
+    url
+    altText
+  }
+  entities {      # ARRAY - people, organizations and places mentioned
+    mentions
+    entity { id, name, type }
+  }
   category {      # OBJECT - requires subfields
     id
     name
@@ -168,16 +201,64 @@ EXACT Article fields (use only these):
   }
 }
 
+Author structure (for author and authors only):
+{
+  id
+  name            # STRING! - select directly, NO subfields
+  slug            # STRING! - select directly, NO subfields
+  affiliation     # STRING - select directly, NO subfields
+  articleCount    # INT! - select directly
+  articles(limit: 5) {  # Array of Article objects, newest first
+    # Use Article fields from above
+  }
+}
+
+Source structure (for source and sources only):
+{
+  id
+  name            # STRING! - select directly, NO subfields
+  slug            # STRING! - select directly, NO subfields
+  domain          # STRING - select directly, NO subfields
+  country         # STRING - select directly, NO subfields
+  language        # STRING - select directly, NO subfields
+  bias            # ENUM: LEFT|LEAN_LEFT|CENTER|LEAN_RIGHT|RIGHT
+  reliability     # FLOAT - select directly, 0 to 1
+  articleCount    # INT! - select directly
+  articles(limit: 5) {  # Array of Article objects, newest first
+    # Use Article fields from above
+  }
+}
+
+Entity structure (for entities and entity only):
+{
+  id
+  name            # STRING! - select directly, NO subfields
+  type            # ENUM: PERSON|ORGANIZATION|PLACE
+  articleCount    # INT! - select directly
+  articles(limit: 5) {  # Array of Article objects, most mentions first
+    # Use Article fields from above
+  }
+}
+
 SearchResult structure (for searchArticles only):
 {
-  articles {      # Array of Article objects
+  articles {      # Array of Article objects, ordered by relevance
     # Use Article fields from above
   }
+  hits {          # Array of ranked hits
+    score         # FLOAT! - relevance score
+    highlight     # STRING - matching snippet
+    article {     # OBJECT - use Article fields from above
+      id
+      title
+    }
+  }
   totalCount      # INT! - select directly
   facets {        # OBJECT - requires subfields
     categories { key, count }
     authors { key, count }
     sources { key, count }
+    languages { key, count }
   }
 }
 
@@ -188,6 +269,7 @@ ArticleStats structure (for articleStats only):
   averageReadingTime      # FLOAT! - select directly
   topAuthors {            # Array of AuthorStats
     author                # STRING! - select directly, NO subfields
+    slug                  # STRING! - select directly, NO subfields
     articleCount          # INT! - select directly
     averageSentiment      # FLOAT! - select directly
     totalViews           # INT! - select directly
@@ -202,11 +284,50 @@ ArticleStats structure (for articleStats only):
     count                 # INT! - select directly
     percentage            # FLOAT! - select directly
   }
+  wordCount {             # OBJECT - same for readingTime (minutes)
+    percentiles { p50, p90, p99 }   # OBJECT - may be null
+    histogram { min, max, count }   # Array of buckets
+  }
   sentimentDistribution { # OBJECT - requires subfields
     positive              # INT! - select directly
     neutral               # INT! - select directly
     negative              # INT! - select directly
+    unscored              # INT! - articles without a sentiment score
     average               # FLOAT! - select directly
+    percentiles { p50, p90, p99 }   # OBJECT - may be null
+  }
+}
+
+AuthorProfile structure (for authorProfile only):
+{
+  name                    # STRING! - select directly
+  articleCount            # INT! - select directly
+  firstPublishedAt        # STRING - select directly
+  lastPublishedAt         # STRING - select directly
+  averageWordCount        # FLOAT! - select directly
+  averageReadingTime      # FLOAT! - select directly
+  averageSentiment        # FLOAT - select directly
+  totalViews              # INT! - select directly
+  averageViews            # FLOAT! - select directly
+  activity { bucket, count, averageSentiment }   # Array, oldest bucket first
+  categories { category { name }, count, percentage }
+  topTags { tag { name }, count }
+  coAuthors { name, articleCount }
+}
+
+ArticleTimeSeries structure (for articleTimeSeries only; set publishedAfter/publishedBefore in the filter for the date range):
+{
+  granularity             # ENUM - select directly
+  series {                # Array - one series per group, or one when not grouped
+    key                   # ID - group id, null when not grouped
+    label                 # STRING! - group name
+    points {              # Array, oldest bucket first
+      bucket              # STRING! - start of the bucket
+      count               # INT
+      totalViews          # INT
+      averageSentiment    # FLOAT
+      averageWordCount    # FLOAT
+    }
   }
 }
 
@@ -240,8 +361,8 @@ Sort format (only for articles query):
 CRITICAL FILTER SYNTAX (only for articles and searchArticles):
 ArticleFilter expects these exact types:
 - categoryId: "string-id"           # Single category ID as string (use ID type)
-- author: "author-name"             # Author name as string  
-- source: "source-name"             # Source name as string
+- author: "author-name"             # Author name or slug as string  
+- source: "source-name"             # Publisher name or slug as string
 - tags: ["tag1", "tag2"]            # Array of tag NAMES as strings
 - publishedAfter: "2025-01-01"      # Date as ISO string
 - publishedBefore: "2025-12-31"     # Date as ISO string
@@ -249,6 +370,16 @@ ArticleFilter expects these exact types:
 - maxWordCount: 500                 # Number
 - sentiment: { min: 0.5, max: 1.0 } # Object with min/max numbers
 - searchTerm: "search-text"         # String for text search
+- categoryIds: ["id1", "id2"]       # Any of several category IDs
+- includeSubcategories: true        # categoryId/categoryIds also match subcategories
+- authors: ["Jane Doe", "John Roe"] # Any of several authors
+- sources: ["Reuters", "BBC"]       # Any of several sources
+- language: "es"                    # ISO 639-1 code of the article language
+- entityIds: ["entity-id"]          # Mentions any of these entities (ids from entities query)
+- excludeTags: ["Opinion"]          # Articles having none of these tag NAMES
+- and: [ArticleFilter]              # All nested filters must match
+- or: [ArticleFilter]               # At least one nested filter must match
+- not: ArticleFilter                # Nested filter must not match
 
 ✅ CORRECT queries that EXIST in schema:
 query GetTrending {
@@ -366,7 +497,7 @@ Examples: tags: ["AI"], author: "Jane Doe", NOT tags: {name: "AI"} or author: {n
             }
           }
         `,
-        explanation: 'Fetching trending articles based on view count',
+        explanation: 'Fetching articles whose views are growing fastest',
       };
     }
 
@@ -546,34 +677,14 @@ Examples: tags: ["AI"], author: "Jane Doe", NOT tags: {name: "AI"} or author: {n
   }
 
   public async executeGraphQLQuery(query: string, variables?: any, contextValue?: any) {
-    // Import DataLoader and prisma for context
-    const DataLoader = require('dataloader');
-    const { prisma } = require('../lib/prisma');
-
-    // Create DataLoaders for context (same as in context.ts)
-    const createCategoryLoader = () =>
-      new DataLoader(async (ids: readonly string[]) => {
-        const categories = await prisma.category.findMany({
-          where: { id: { in: [...ids] } },
-        });
-        return ids.map((id: string) => categories.find((cat: any) => cat.id === id));
-      });
-
-    const createTagsLoader = () =>
-      new DataLoader(async (articleIds: readonly string[]) => {
-        const articles = await prisma.article.findMany({
-          where: { id: { in: [...articleIds] } },
-          include: { tags: true },
-        });
-        return articleIds.map((id: string) => articles.find((a: any) => a.id === id)?.tags || []);
-      });
-
     // Create proper context
-    const defaultContext = {
-      prisma,
-      categoryLoader: createCategoryLoader(),
-      tagsLoader: createTagsLoader(),
-    };
+    const defaultContext = { prisma, ...createLoaders() };
+
+    // Generated queries are subject to the same limits as client queries
+    const costError = queryCostErrorForSource(this.schema, query, undefined, variables);
+    if (costError) {
+      throw new Error(`GraphQL execution error: ${costError.message}`);
+    }
 
     const result = await graphql({
       schema: this.schema,
@@ -0,0 +1,86 @@
+// src/services/revisionService.ts
+import type { ArticleRevision, Prisma } from '@prisma/client';
+import { GraphQLError } from 'graphql';
+import { prisma } from '../lib/prisma';
+import { diffText } from '../utils/textDiff';
+import type { Viewer } from './authService';
+
+type Tx = Prisma.TransactionClient;
+
+/**
+ * Snapshot the article's current title, content, excerpt, category and tags
+ * as its next revision. Run inside the transaction that wrote the article.
+ */
+export async function recordRevision(tx: Tx, articleId: string, editor: Viewer | null) {
+  const article = await tx.article.findUniqueOrThrow({
+    where: { id: articleId },
+    include: { tags: true },
+  });
+  const latest = await tx.articleRevision.aggregate({
+    where: { articleId },
+    _max: { version: true },
+  });
+
+  return tx.articleRevision.create({
+    data: {
+      articleId,
+      version: (latest._max.version ?? 0) + 1,
+      title: article.title,
+      content: article.content,
+      excerpt: article.excerpt,
+      categoryId: article.categoryId,
+      tagNames: article.tags.map((t) => t.name).sort(),
+      editedBy: editor?.name ?? null,
+    },
+  });
+}
+
+/**
+ * Articles created before revisions existed (seed, imports) have no history;
+ * record their current state before the first edit so it can be restored.
+ */
+export async function ensureBaselineRevision(tx: Tx, articleId: string) {
+  const existing = await tx.articleRevision.count({ where: { articleId } });
+  if (existing === 0) await recordRevision(tx, articleId, null);
+}
+
+export async function findRevision(id: string) {
+  const revision = await prisma.articleRevision.findUnique({ where: { id } });
+  if (!revision) {
+    throw new GraphQLError(`Revision ${id} not found`, { extensions: { code: 'NOT_FOUND' } });
+  }
+  return revision;
+}
+
+/**
+ * Field-level changes between two revisions plus a word-level diff of the
+ * content. `from` and `to` may be given in either order.
+ */
+export function diffRevisions(from: ArticleRevision, to: ArticleRevision) {
+  if (from.articleId !== to.articleId) {
+    throw new GraphQLError('Revisions belong to different articles', {
+      extensions: { code: 'BAD_USER_INPUT' },
+    });
+  }
+
+  const changes = (['title', 'excerpt', 'categoryId'] as const)
+    .filter((field) => from[field] !== to[field])
+    .map((field) => ({ field, from: from[field], to: to[field] }));
+
+  const addedTags = to.tagNames.filter((t) => !from.tagNames.includes(t));
+  const removedTags = from.tagNames.filter((t) => !to.tagNames.includes(t));
+
+  const changedFields = changes.map((c) => c.field as string);
+  if (from.content !== to.content) changedFields.push('content');
+  if (addedTags.length || removedTags.length) changedFields.push('tags');
+
+  return {
+    from,
+    to,
+    changedFields,
+    changes,
+    addedTags,
+    removedTags,
+    contentDiff: diffText(from.content, to.content),
+  };
+}
@@ -0,0 +1,108 @@
+// src/services/searchService.ts
+import { Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { searchTsQuery } from '../utils/language';
+
+// Options passed to ts_headline when building hit snippets
+const HEADLINE_OPTIONS =
+  'StartSel=<mark>, StopSel=</mark>, MaxWords=35, MinWords=15, MaxFragments=2';
+
+type FacetColumn = 'categoryId' | 'language';
+
+export interface SearchHitRow {
+  id: string;
+  score: number;
+  highlight: string | null;
+}
+
+export interface FacetRow {
+  key: string | null;
+  count: number;
+}
+
+/**
+ * Full-text search over the weighted `searchVector` column (title > excerpt >
+ * content). Hits are ordered by ts_rank; the total and facets are computed
+ * over the same matched set. `filter` is an extra SQL condition on alias `a`;
+ * `language` limits how the query is parsed, see `searchTsQuery`.
+ */
+export async function fullTextSearch(
+  query: string,
+  filter: Prisma.Sql,
+  limit: number,
+  language?: string | null
+) {
+  const tsQuery = searchTsQuery(query, language);
+  const matched = Prisma.sql`a."searchVector" @@ ${tsQuery} AND ${filter}`;
+
+  const [hits, totals, categories, authors, sources, languages] = await Promise.all([
+    // Rank and limit first so snippets are only built for the returned rows
+    prisma.$queryRaw<SearchHitRow[]>`
+      SELECT ranked."id",
+             ranked."score",
+             ts_headline(article_search_config(ranked."language"),
+                         coalesce(ranked."excerpt", ranked."content"),
+                         ${tsQuery}, ${HEADLINE_OPTIONS}) AS "highlight"
+      FROM (
+        SELECT a."id", a."excerpt", a."content", a."language", a."publishedAt",
+               ts_rank(a."searchVector", ${tsQuery}) AS "score"
+        FROM "Article" a
+        WHERE ${matched}
+        ORDER BY "score" DESC, a."publishedAt" DESC
+        LIMIT ${limit}
+      ) ranked
+      ORDER BY ranked."score" DESC, ranked."publishedAt" DESC
+    `,
+    prisma.$queryRaw<{ count: number }[]>`
+      SELECT count(*)::int AS "count" FROM "Article" a WHERE ${matched}
+    `,
+    facet('categoryId', matched),
+    authorFacet(matched),
+    sourceFacet(matched),
+    facet('language', matched),
+  ]);
+
+  return {
+    hits,
+    totalCount: totals[0]?.count ?? 0,
+    facets: { categories, authors, sources, languages },
+  };
+}
+
+function facet(column: FacetColumn, matched: Prisma.Sql) {
+  return prisma.$queryRaw<FacetRow[]>`
+    SELECT a.${Prisma.raw(`"${column}"`)} AS "key", count(*)::int AS "count"
+    FROM "Article" a
+    WHERE ${matched}
+    GROUP BY 1
+    ORDER BY 2 DESC
+    LIMIT 10
+  `;
+}
+
+// Co-authored articles count once for each of their authors
+function authorFacet(matched: Prisma.Sql) {
+  return prisma.$queryRaw<FacetRow[]>`
+    SELECT au."name" AS "key", count(*)::int AS "count"
+    FROM "Article" a
+    JOIN "_ArticleToAuthor" aa ON aa."A" = a."id"
+    JOIN "Author" au ON au."id" = aa."B"
+    WHERE ${matched}
+    GROUP BY au."id", au."name"
+    ORDER BY 2 DESC
+    LIMIT 10
+  `;
+}
+
+// Grouped by publisher, so spelling variants of a source form one bucket
+function sourceFacet(matched: Prisma.Sql) {
+  return prisma.$queryRaw<FacetRow[]>`
+    SELECT s."name" AS "key", count(*)::int AS "count"
+    FROM "Article" a
+    JOIN "Source" s ON s."id" = a."sourceId"
+    WHERE ${matched}
+    GROUP BY s."id", s."name"
+    ORDER BY 2 DESC
+    LIMIT 10
+  `;
+}
@@ -0,0 +1,71 @@
+import { Prisma } from '@prisma/client';
+import { allocateSlugs, withAllocatedSlug } from './slugService';
+
+jest.mock('../lib/prisma', () => ({ prisma: {} }));
+
+function database(taken: string[][]) {
+  const queryRaw = jest.fn();
+  for (const slugs of taken) queryRaw.mockResolvedValueOnce(slugs.map((slug) => ({ slug })));
+  return {
+    $queryRaw: queryRaw,
+    $executeRaw: jest.fn(),
+  } as unknown as Prisma.TransactionClient & { $queryRaw: jest.Mock; $executeRaw: jest.Mock };
+}
+
+const conflict = new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+  code: 'P2002',
+  clientVersion: 'test',
+  meta: { target: ['slug'] },
+});
+
+describe('allocateSlugs', () => {
+  it('numbers collisions within the batch and with taken slugs', async () => {
+    const db = database([['city-council', 'city-council-2']]);
+
+    expect(await allocateSlugs(db, ['City Council', 'City council!', 'Budget'])).toEqual([
+      'city-council-3',
+      'city-council-4',
+      'budget',
+    ]);
+  });
+
+  it('only looks up the bases and their numbered variants', async () => {
+    const db = database([[]]);
+    await allocateSlugs(db, ['City Council', 'Budget']);
+
+    expect(db.$queryRaw.mock.calls[0].slice(1)).toEqual([
+      ['city-council', 'budget'],
+      ['city-council-%', 'budget-%'],
+      '^(city-council|budget)-[0-9]+$',
+      ['city-council', 'budget'],
+      ['city-council-%', 'budget-%'],
+      '^(city-council|budget)-[0-9]+$',
+    ]);
+  });
+});
+
+describe('withAllocatedSlug', () => {
+  it('retries with a fresh slug when a concurrent write claimed it', async () => {
+    const db = database([[], ['budget']]);
+    const write = jest.fn().mockRejectedValueOnce(conflict).mockResolvedValueOnce('written');
+
+    expect(await withAllocatedSlug(db, 'Budget', write)).toBe('written');
+    expect(write.mock.calls).toEqual([['budget'], ['budget-2']]);
+    expect(db.$executeRaw.mock.calls.map(([sql]) => sql.join(''))).toEqual([
+      'SAVEPOINT allocate_slug',
+      'ROLLBACK TO SAVEPOINT allocate_slug',
+      'SAVEPOINT allocate_slug',
+      'RELEASE SAVEPOINT allocate_slug',
+    ]);
+  });
+
+  it('does not retry other errors', async () => {
+    const db = database([[]]);
+    const error = new Error('boom');
+
+    await expect(withAllocatedSlug(db, 'Budget', jest.fn().mockRejectedValue(error))).rejects.toBe(
+      error
+    );
+    expect(db.$queryRaw).toHaveBeenCalledTimes(1);
+  });
+});
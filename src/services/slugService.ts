@@ -0,0 +1,148 @@
+// src/services/slugService.ts
+import { Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+
+type Db = Prisma.TransactionClient;
+
+const MAX_SLUG_LENGTH = 80;
+const FALLBACK_SLUG = 'article';
+const MAX_SLUG_ATTEMPTS = 3;
+
+/**
+ * URL-safe slug: accents are folded to ASCII (`Café` -> `cafe`), everything
+ * else that is not a letter or digit becomes a single dash. `fallback` is used
+ * when nothing is left, e.g. for titles in non-Latin scripts.
+ */
+export function slugify(text: string, fallback = FALLBACK_SLUG): string {
+  const slug = text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+  if (slug.length <= MAX_SLUG_LENGTH) return slug || fallback;
+
+  // Cut at a word boundary when there is one reasonably close to the limit
+  const cut = slug.slice(0, MAX_SLUG_LENGTH);
+  const boundary = cut.lastIndexOf('-');
+  return boundary > MAX_SLUG_LENGTH / 2 ? cut.slice(0, boundary) : cut;
+}
+
+/**
+ * Allocate unique slugs for a batch of titles, appending `-2`, `-3`, ... on
+ * collisions. Slugs in the history stay reserved for the article that used
+ * them, so old links never start pointing at a different article.
+ */
+export async function allocateSlugs(db: Db, titles: string[]): Promise<string[]> {
+  const bases = titles.map((title) => slugify(title));
+  const taken = await takenSlugs(db, [...new Set(bases)]);
+
+  return bases.map((base) => {
+    let slug = base;
+    for (let n = 2; taken.has(slug); n++) slug = `${base}-${n}`;
+    taken.add(slug);
+    return slug;
+  });
+}
+
+export async function allocateSlug(db: Db, title: string): Promise<string> {
+  const [slug] = await allocateSlugs(db, [title]);
+  return slug;
+}
+
+/**
+ * Run `write` with a slug allocated for `title`. A concurrent writer can claim
+ * the same slug in the meantime, failing the unique index; the write is then
+ * rolled back to a savepoint, since the error would otherwise abort the whole
+ * transaction, and retried with a fresh slug. Must run inside a transaction.
+ */
+export async function withAllocatedSlug<T>(
+  db: Db,
+  title: string,
+  write: (slug: string) => Promise<T>
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    const slug = await allocateSlug(db, title);
+    await db.$executeRaw`SAVEPOINT allocate_slug`;
+    try {
+      const result = await write(slug);
+      await db.$executeRaw`RELEASE SAVEPOINT allocate_slug`;
+      return result;
+    } catch (error) {
+      if (attempt >= MAX_SLUG_ATTEMPTS || !isSlugConflict(error)) throw error;
+      await db.$executeRaw`ROLLBACK TO SAVEPOINT allocate_slug`;
+    }
+  }
+}
+
+/**
+ * Regenerate an article's slug after its title changed. The old slug moves to
+ * the history so it keeps resolving; slugs that already match the title (up
+ * to a numeric suffix) are left alone.
+ */
+export async function syncArticleSlug(db: Db, articleId: string) {
+  const article = await db.article.findUniqueOrThrow({ where: { id: articleId } });
+  const base = slugify(article.title);
+  if (matchesBase(article.slug, base)) return article;
+
+  // Reclaim a slug this article used before instead of minting a new suffix
+  const history = await db.slugHistory.findMany({
+    where: { articleId },
+    orderBy: { createdAt: 'desc' },
+  });
+  const reclaimed = history.find((entry) => matchesBase(entry.slug, base));
+
+  if (reclaimed) await db.slugHistory.delete({ where: { id: reclaimed.id } });
+  await db.slugHistory.create({ data: { slug: article.slug, articleId } });
+  if (reclaimed) {
+    return db.article.update({ where: { id: articleId }, data: { slug: reclaimed.slug } });
+  }
+  return withAllocatedSlug(db, article.title, (slug) =>
+    db.article.update({ where: { id: articleId }, data: { slug } })
+  );
+}
+
+/**
+ * Find the article for a slug, following the history for renamed articles.
+ * `redirectedFrom` is set when `slug` is no longer the canonical one.
+ */
+export async function resolveArticleSlug(slug: string, where: Prisma.ArticleWhereInput = {}) {
+  const article = await prisma.article.findFirst({ where: { slug, ...where } });
+  if (article) return article;
+
+  const previous = await prisma.slugHistory.findUnique({ where: { slug } });
+  if (!previous) return null;
+
+  const renamed = await prisma.article.findFirst({ where: { id: previous.articleId, ...where } });
+  return renamed && { ...renamed, redirectedFrom: slug };
+}
+
+function matchesBase(slug: string, base: string) {
+  return slug === base || new RegExp(`^${base}-\\d+$`).test(slug);
+}
+
+function isSlugConflict(error: unknown) {
+  return (
+    error instanceof Prisma.PrismaClientKnownRequestError &&
+    error.code === 'P2002' &&
+    [error.meta?.target].flat().includes('slug')
+  );
+}
+
+// Only `base` and its numbered variants can collide; slugs of longer titles
+// that happen to start with `base` are never loaded. Slugs are [a-z0-9-], so
+// the bases need no escaping in the LIKE and regex patterns.
+async function takenSlugs(db: Db, bases: string[]): Promise<Set<string>> {
+  if (bases.length === 0) return new Set();
+  const prefixes = bases.map((base) => `${base}-%`);
+  const numbered = `^(${bases.join('|')})-[0-9]+$`;
+  const rows = await db.$queryRaw<{ slug: string }[]>`
+    SELECT "slug" FROM "Article"
+    WHERE "slug" = ANY(${bases}) OR ("slug" LIKE ANY(${prefixes}) AND "slug" ~ ${numbered})
+    UNION
+    SELECT "slug" FROM "SlugHistory"
+    WHERE "slug" = ANY(${bases}) OR ("slug" LIKE ANY(${prefixes}) AND "slug" ~ ${numbered})
+  `;
+  return new Set(rows.map((row) => row.slug));
+}
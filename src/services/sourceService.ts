@@ -0,0 +1,182 @@
+// src/services/sourceService.ts
+import { Prisma, SourceBias } from '@prisma/client';
+import { GraphQLError } from 'graphql';
+import { prisma } from '../lib/prisma';
+import { slugify } from './slugService';
+
+type Db = Prisma.TransactionClient;
+
+export interface SourceRef {
+  name?: string | null;
+  url?: string | null; // any article or homepage URL on the publisher's domain
+}
+
+export interface SourceInput {
+  name?: string | null;
+  domain?: string | null;
+  aliases?: string[] | null;
+  country?: string | null;
+  language?: string | null;
+  bias?: SourceBias | null;
+  reliability?: number | null;
+  logoUrl?: string | null;
+}
+
+/**
+ * Publishers known ahead of time. Seeding and imports register them so that
+ * their articles resolve by domain or any listed alias.
+ */
+const KNOWN_SOURCES: (SourceInput & { name: string; domain: string })[] = [
+  {
+    name: 'HuffPost',
+    domain: 'huffpost.com',
+    aliases: ['huffingtonpost.com', 'huffington post', 'the huffington post'],
+    country: 'US',
+    language: 'en',
+  },
+  { name: 'Reuters', domain: 'reuters.com', aliases: [], country: 'GB', language: 'en' },
+  {
+    name: 'BBC News',
+    domain: 'bbc.co.uk',
+    aliases: ['bbc.com', 'bbc'],
+    country: 'GB',
+    language: 'en',
+  },
+  { name: 'CNN', domain: 'cnn.com', aliases: [], country: 'US', language: 'en' },
+  {
+    name: 'The Guardian',
+    domain: 'theguardian.com',
+    aliases: ['guardian', 'guardian.co.uk'],
+    country: 'GB',
+    language: 'en',
+  },
+  { name: 'TechCrunch', domain: 'techcrunch.com', aliases: [], country: 'US', language: 'en' },
+];
+
+/**
+ * Registrable host of a URL or bare domain: lowercase, without `www.`.
+ * Returns null for anything that does not parse as one.
+ */
+export function sourceDomain(urlOrDomain: string): string | null {
+  const value = urlOrDomain.trim();
+  try {
+    const { hostname } = new URL(
+      /^[a-z][a-z0-9+.-]*:\/\//i.test(value) ? value : `https://${value}`
+    );
+    const host = hostname.toLowerCase().replace(/^www\./, '');
+    return host.includes('.') ? host : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Find the source for a name and/or URL, registering a new one when nothing
+ * matches. The URL's domain (or a parent domain, so `politics.example.com`
+ * finds `example.com`) wins over the name; names match case-insensitively
+ * against the name, slug and aliases.
+ */
+export async function resolveSource(db: Db, ref: SourceRef) {
+  const name = ref.name?.trim() || null;
+  const domain = ref.url ? sourceDomain(ref.url) : null;
+  if (!name && !domain) return null;
+
+  if (domain) {
+    const domains = parentDomains(domain);
+    const candidates = await db.source.findMany({
+      where: { OR: [{ domain: { in: domains } }, { aliases: { hasSome: domains } }] },
+    });
+    // The most specific domain wins: `news.bbc.co.uk` before `bbc.co.uk`
+    for (const candidate of domains) {
+      const match = candidates.find(
+        (source) => source.domain === candidate || source.aliases.includes(candidate)
+      );
+      if (match) return match;
+    }
+  }
+
+  if (name) {
+    const byName = await db.source.findFirst({
+      where: {
+        OR: [
+          { name: { equals: name, mode: 'insensitive' } },
+          { slug: slugify(name) },
+          { aliases: { has: name.toLowerCase() } },
+        ],
+      },
+    });
+    if (byName) return byName;
+  }
+
+  // Upsert so concurrent imports of the same new publisher share one row
+  const slug = slugify(name ?? domain!);
+  return db.source.upsert({
+    where: { slug },
+    create: { name: name ?? domain!, slug, domain, aliases: [] },
+    update: {},
+  });
+}
+
+/**
+ * Register the publishers in KNOWN_SOURCES. Existing rows only have empty
+ * fields filled in, so edits made through `updateSource` are kept.
+ */
+export async function ensureKnownSources(db: Db) {
+  for (const known of KNOWN_SOURCES) {
+    const slug = slugify(known.name);
+    const existing = await db.source.findUnique({ where: { slug } });
+    if (!existing) {
+      await db.source.create({ data: { ...known, slug, aliases: known.aliases ?? [] } });
+      continue;
+    }
+
+    await db.source.update({
+      where: { slug },
+      data: {
+        domain: existing.domain ?? known.domain,
+        country: existing.country ?? known.country,
+        language: existing.language ?? known.language,
+        aliases: [...new Set([...existing.aliases, ...(known.aliases ?? [])])],
+      },
+    });
+  }
+}
+
+export async function updateSource(id: string, input: SourceInput) {
+  if (input.reliability != null && (input.reliability < 0 || input.reliability > 1)) {
+    throw new GraphQLError('reliability must be between 0 and 1', {
+      extensions: { code: 'BAD_USER_INPUT' },
+    });
+  }
+
+  let domain = input.domain;
+  if (domain != null) {
+    domain = sourceDomain(domain);
+    if (!domain) {
+      throw new GraphQLError(`Invalid domain: ${input.domain}`, {
+        extensions: { code: 'BAD_USER_INPUT' },
+      });
+    }
+  }
+
+  const existing = await prisma.source.findUnique({ where: { id } });
+  if (!existing) {
+    throw new GraphQLError(`Source ${id} not found`, { extensions: { code: 'NOT_FOUND' } });
+  }
+
+  return prisma.source.update({
+    where: { id },
+    data: {
+      ...input,
+      name: input.name ?? undefined,
+      domain,
+      aliases: input.aliases?.map((alias) => alias.trim().toLowerCase()).filter(Boolean),
+    },
+  });
+}
+
+// `news.bbc.co.uk` -> ['news.bbc.co.uk', 'bbc.co.uk', 'co.uk']
+function parentDomains(domain: string) {
+  const labels = domain.split('.');
+  return labels.slice(0, -1).map((_, i) => labels.slice(i).join('.'));
+}
@@ -0,0 +1,180 @@
+// src/services/tagService.ts
+import { Prisma, Tag } from '@prisma/client';
+import { GraphQLError } from 'graphql';
+import { prisma } from '../lib/prisma';
+import { displayTagName, normalizeTagName } from '../utils/tagNames';
+
+type Db = Prisma.TransactionClient;
+
+/**
+ * Find or create the tags for `names`. Names are matched on their normalized
+ * form and on aliases, so "ai", "AI" and an "artificial intelligence" alias
+ * all give the same tag. Returns each tag once, in the order first named.
+ */
+export async function resolveTags(db: Db, names: string[]): Promise<Tag[]> {
+  const wanted = new Map<string, string>();
+  for (const name of names) {
+    const key = normalizeTagName(name);
+    if (key && !wanted.has(key)) wanted.set(key, displayTagName(name));
+  }
+  if (wanted.size === 0) return [];
+
+  const keys = [...wanted.keys()];
+  const findExisting = () =>
+    db.tag.findMany({
+      where: {
+        OR: [{ normalizedName: { in: keys } }, { aliases: { some: { name: { in: keys } } } }],
+      },
+      include: { aliases: { select: { name: true } } },
+    });
+
+  let existing = await findExisting();
+  const missing = keys.filter((key) => !existing.some((tag) => tagMatches(tag, key)));
+  if (missing.length > 0) {
+    await db.tag.createMany({
+      data: missing.map((key) => ({ name: wanted.get(key)!, normalizedName: key })),
+      skipDuplicates: true,
+    });
+    existing = await findExisting();
+  }
+
+  const tags = keys
+    .map((key) => existing.find((tag) => tagMatches(tag, key)))
+    .filter((tag): tag is (typeof existing)[number] => Boolean(tag));
+  return [...new Map(tags.map((tag) => [tag.id, tag])).values()];
+}
+
+/**
+ * Replace an article's tags with `names`, creating missing tags.
+ */
+export async function setArticleTags(db: Db, articleId: string, names: string[]) {
+  const tags = await resolveTags(db, names);
+  return db.article.update({
+    where: { id: articleId },
+    data: { tags: { set: tags.map((tag) => ({ id: tag.id })) } },
+  });
+}
+
+export async function addArticleTags(db: Db, articleId: string, names: string[]) {
+  const tags = await resolveTags(db, names);
+  return db.article.update({
+    where: { id: articleId },
+    data: { tags: { connect: tags.map((tag) => ({ id: tag.id })) } },
+  });
+}
+
+// Names that match no tag are ignored; tags are never created here
+export async function removeArticleTags(db: Db, articleId: string, names: string[]) {
+  const keys = names.map(normalizeTagName);
+  const tags = await db.tag.findMany({
+    where: {
+      OR: [{ normalizedName: { in: keys } }, { aliases: { some: { name: { in: keys } } } }],
+    },
+    select: { id: true },
+  });
+  return db.article.update({
+    where: { id: articleId },
+    data: { tags: { disconnect: tags } },
+  });
+}
+
+/**
+ * Fold `sourceIds` into `targetId`: their articles are tagged with the target
+ * instead, and their names (and aliases) become aliases of the target so
+ * later writes and filters using the old names land on the target.
+ */
+export async function mergeTags(sourceIds: string[], targetId: string) {
+  const ids = [...new Set(sourceIds)];
+  if (ids.length === 0 || ids.includes(targetId)) {
+    throw badInput('sourceIds must be non-empty and must not include targetId');
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const target = await tx.tag.findUnique({ where: { id: targetId } });
+    if (!target) throw notFound(targetId);
+    const sources = await tx.tag.findMany({ where: { id: { in: ids } } });
+    const missing = ids.find((id) => !sources.some((tag) => tag.id === id));
+    if (missing) throw notFound(missing);
+
+    // Articles already tagged with the target keep a single link
+    await tx.$executeRaw`
+      INSERT INTO "_ArticleToTag" ("A", "B")
+      SELECT at."A", ${targetId} FROM "_ArticleToTag" at
+      WHERE at."B" IN (${Prisma.join(ids)})
+      ON CONFLICT DO NOTHING
+    `;
+    await tx.tagAlias.updateMany({ where: { tagId: { in: ids } }, data: { tagId: targetId } });
+    await tx.tag.deleteMany({ where: { id: { in: ids } } });
+    await tx.tagAlias.createMany({
+      data: sources.map((tag) => ({ name: tag.normalizedName, tagId: targetId })),
+      skipDuplicates: true,
+    });
+
+    return target;
+  });
+}
+
+/**
+ * Make `alias` resolve to the tag. Fails when the name already belongs to a
+ * tag or another alias; merge the tags instead.
+ */
+export async function addTagAlias(tagId: string, alias: string) {
+  const name = normalizeTagName(alias);
+  if (!name) throw badInput('Alias must not be empty');
+
+  const tag = await prisma.tag.findUnique({ where: { id: tagId } });
+  if (!tag) throw notFound(tagId);
+
+  const [owner, existing] = await Promise.all([
+    prisma.tag.findUnique({ where: { normalizedName: name } }),
+    prisma.tagAlias.findUnique({ where: { name } }),
+  ]);
+  if (existing?.tagId === tagId) return tag;
+  if (owner || existing) {
+    throw badInput(`"${alias}" is already used by another tag; merge the tags instead`);
+  }
+
+  await prisma.tagAlias.create({ data: { name, tagId } });
+  return tag;
+}
+
+export async function removeTagAlias(alias: string) {
+  const existing = await prisma.tagAlias.findUnique({ where: { name: normalizeTagName(alias) } });
+  if (!existing) {
+    throw new GraphQLError(`Alias "${alias}" not found`, { extensions: { code: 'NOT_FOUND' } });
+  }
+  await prisma.tagAlias.delete({ where: { id: existing.id } });
+  return prisma.tag.findUniqueOrThrow({ where: { id: existing.tagId } });
+}
+
+/**
+ * Tags whose name or an alias starts with `prefix`, most used first. Meant
+ * for autocompletion while tagging.
+ */
+export function suggestTags(prefix: string, limit: number) {
+  const key = normalizeTagName(prefix);
+  return prisma.tag.findMany({
+    where: key
+      ? {
+          OR: [
+            { normalizedName: { startsWith: key } },
+            { aliases: { some: { name: { startsWith: key } } } },
+          ],
+        }
+      : {},
+    orderBy: [{ articles: { _count: 'desc' } }, { name: 'asc' }],
+    take: limit,
+  });
+}
+
+function tagMatches(tag: Tag & { aliases: { name: string }[] }, key: string) {
+  return tag.normalizedName === key || tag.aliases.some((alias) => alias.name === key);
+}
+
+function notFound(id: string) {
+  return new GraphQLError(`Tag ${id} not found`, { extensions: { code: 'NOT_FOUND' } });
+}
+
+function badInput(message: string) {
+  return new GraphQLError(message, { extensions: { code: 'BAD_USER_INPUT' } });
+}
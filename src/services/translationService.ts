@@ -0,0 +1,67 @@
+// src/services/translationService.ts
+import { randomUUID } from 'crypto';
+import { Prisma } from '@prisma/client';
+import { GraphQLError } from 'graphql';
+import { prisma } from '../lib/prisma';
+import { NOT_DELETED } from '../utils/articleFilter';
+
+type Db = Prisma.TransactionClient;
+
+/**
+ * Translation group of an article, starting a new group when it has none so
+ * that a translation can join it.
+ */
+export async function translationGroupOf(db: Db, articleId: string) {
+  const article = await db.article.findFirst({ where: { id: articleId, ...NOT_DELETED } });
+  if (!article) throw notFound(articleId);
+  if (article.translationGroup) return article.translationGroup;
+
+  const translationGroup = randomUUID();
+  await db.article.update({ where: { id: articleId }, data: { translationGroup } });
+  return translationGroup;
+}
+
+/**
+ * Link the articles as translations of the same story. Groups they already
+ * belong to are merged, so linking one article of each of two groups joins
+ * all of their translations.
+ */
+export async function linkTranslations(articleIds: string[]) {
+  const ids = [...new Set(articleIds)];
+  if (ids.length < 2) throw badInput('Link at least two articles');
+
+  return prisma.$transaction(async (tx) => {
+    const articles = await tx.article.findMany({ where: { id: { in: ids }, ...NOT_DELETED } });
+    const missing = ids.find((id) => !articles.some((article) => article.id === id));
+    if (missing) throw notFound(missing);
+
+    const groups = [
+      ...new Set(articles.map((article) => article.translationGroup).filter(Boolean)),
+    ] as string[];
+    const translationGroup = groups[0] ?? randomUUID();
+    await tx.article.updateMany({
+      where: { OR: [{ id: { in: ids } }, { translationGroup: { in: groups } }] },
+      data: { translationGroup },
+    });
+
+    return tx.article.findMany({
+      where: { translationGroup, ...NOT_DELETED },
+      orderBy: { publishedAt: 'asc' },
+    });
+  });
+}
+
+// The other translations stay linked to each other
+export async function unlinkTranslation(articleId: string) {
+  const article = await prisma.article.findFirst({ where: { id: articleId, ...NOT_DELETED } });
+  if (!article) throw notFound(articleId);
+  return prisma.article.update({ where: { id: articleId }, data: { translationGroup: null } });
+}
+
+function notFound(id: string) {
+  return new GraphQLError(`Article ${id} not found`, { extensions: { code: 'NOT_FOUND' } });
+}
+
+function badInput(message: string) {
+  return new GraphQLError(message, { extensions: { code: 'BAD_USER_INPUT' } });
+}
@@ -0,0 +1,28 @@
+// src/services/trashService.ts
+import { prisma } from '../lib/prisma';
+import { deleteStoredFiles } from './mediaService';
+
+// Days an article stays in the trash before it may be purged
+export const TRASH_RETENTION_DAYS = Number(process.env.TRASH_RETENTION_DAYS) || 30;
+
+/**
+ * Permanently delete articles that have been in the trash longer than
+ * `retentionDays`. Revisions, media and tag links are removed by cascade;
+ * uploaded media files are deleted afterwards.
+ */
+export async function purgeTrash(retentionDays = TRASH_RETENTION_DAYS, dryRun = false) {
+  const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+  const where = { deletedAt: { lt: cutoff } };
+
+  if (dryRun) {
+    return { cutoff, count: await prisma.article.count({ where }) };
+  }
+
+  const uploads = await prisma.media.findMany({
+    where: { article: where, storageKey: { not: null } },
+    select: { storageKey: true },
+  });
+  const { count } = await prisma.article.deleteMany({ where });
+  await deleteStoredFiles(uploads);
+  return { cutoff, count };
+}
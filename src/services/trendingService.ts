@@ -0,0 +1,103 @@
+// src/services/trendingService.ts
+import { Prisma, TrendingWindow } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { PUBLISHED } from '../utils/articleFilter';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const DEFAULT_REFRESH_INTERVAL_MS = 60 * 1000;
+
+export interface TrendingOptions {
+  window: TrendingWindow;
+  where?: Prisma.ArticleWhereInput; // e.g. a category
+  limit: number;
+}
+
+/**
+ * How far back each window looks, and how quickly views in it lose weight. A
+ * view counts 1 when it happens and half as much one half-life later, so an
+ * article gaining views now outranks one that gained more of them earlier.
+ * Half-lives can be tuned with TRENDING_<WINDOW>_HALF_LIFE_HOURS.
+ */
+export const TRENDING_WINDOWS: Record<TrendingWindow, { hours: number; halfLifeHours: number }> = {
+  HOUR: { hours: 1, halfLifeHours: halfLife('HOUR', 0.25) },
+  DAY: { hours: 24, halfLifeHours: halfLife('DAY', 4) },
+  WEEK: { hours: 7 * 24, halfLifeHours: halfLife('WEEK', 24) },
+};
+
+/**
+ * Recompute the trending scores of every window from the views recorded in
+ * it. Each window is replaced in one transaction, so readers never see it
+ * half written. Returns the number of scored articles per window.
+ */
+export async function refreshTrendingScores(now = new Date()) {
+  const scored = {} as Record<TrendingWindow, number>;
+  for (const window of Object.values(TrendingWindow)) {
+    const { hours, halfLifeHours } = TRENDING_WINDOWS[window];
+    const since = new Date(now.getTime() - hours * HOUR_MS);
+    const [, count] = await prisma.$transaction([
+      prisma.trendingScore.deleteMany({ where: { window } }),
+      prisma.$executeRaw`
+        INSERT INTO "TrendingScore" ("window", "articleId", "score", "views", "computedAt")
+        SELECT ${window}::"TrendingWindow", v."articleId",
+               sum(power(0.5, extract(epoch FROM ${now}::timestamp - v."viewedAt")
+                              / ${halfLifeHours * 3600})),
+               count(*)::int, ${now}
+        FROM "ArticleView" v
+        JOIN "Article" a ON a."id" = v."articleId"
+        WHERE v."viewedAt" > ${since}
+          AND a."deletedAt" IS NULL AND a."status" = 'PUBLISHED'
+        GROUP BY v."articleId"
+      `,
+    ]);
+    scored[window] = count;
+  }
+  return scored;
+}
+
+/**
+ * Run `refreshTrendingScores` periodically. Returns a function that stops it.
+ */
+export function startTrendingScheduler(
+  intervalMs = Number(process.env.TRENDING_REFRESH_INTERVAL_MS) || DEFAULT_REFRESH_INTERVAL_MS
+) {
+  let running = false;
+
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await refreshTrendingScores();
+    } catch (error: unknown) {
+      console.error(
+        'Refreshing trending scores failed:',
+        error instanceof Error ? error.message : error
+      );
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(tick, intervalMs);
+  timer.unref();
+  void tick();
+
+  return () => clearInterval(timer);
+}
+
+/**
+ * Highest scoring published articles of the last refresh that match `where`.
+ * Articles that lost their published state since are skipped.
+ */
+export function findTrending({ window, where = {}, limit }: TrendingOptions) {
+  return prisma.trendingScore.findMany({
+    where: { window, article: { ...where, ...PUBLISHED } },
+    include: { article: true },
+    orderBy: [{ score: 'desc' }, { articleId: 'asc' }],
+    take: limit,
+  });
+}
+
+function halfLife(window: TrendingWindow, defaultHours: number) {
+  return Number(process.env[`TRENDING_${window}_HALF_LIFE_HOURS`]) || defaultHours;
+}
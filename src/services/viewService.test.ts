@@ -0,0 +1,52 @@
+import type { IncomingMessage } from 'http';
+import { recordView, requestViewContext } from './viewService';
+
+jest.mock('../lib/prisma', () => ({ prisma: {} }));
+jest.mock('../lib/pubsub', () => ({ pubsub: {}, SUBSCRIPTION_EVENTS: {} }));
+
+const browser = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) Firefox/128.0';
+
+describe('recordView', () => {
+  it('counts a repeat view by the same visitor once', () => {
+    const visitor = { address: '203.0.113.1', userAgent: browser };
+    expect(recordView('a1', visitor)).toBe(true);
+    expect(recordView('a1', visitor)).toBe(false);
+    expect(recordView('a2', visitor)).toBe(true);
+  });
+
+  it('does not count a repeat view under a new session id', () => {
+    const visitor = { address: '203.0.113.2', userAgent: browser };
+    expect(recordView('a1', { ...visitor, sessionId: 's1' })).toBe(true);
+    expect(recordView('a1', { ...visitor, sessionId: 's2' })).toBe(false);
+    expect(recordView('a1', visitor)).toBe(false);
+  });
+
+  it('does not count a repeat view of a session from another address', () => {
+    expect(recordView('a1', { sessionId: 's3', address: '203.0.113.3', userAgent: browser })).toBe(
+      true
+    );
+    expect(recordView('a1', { sessionId: 's3', address: '203.0.113.4', userAgent: browser })).toBe(
+      false
+    );
+  });
+
+  it('ignores bots', () => {
+    expect(recordView('a1', { address: '203.0.113.5', userAgent: 'Googlebot/2.1' })).toBe(false);
+  });
+});
+
+describe('requestViewContext', () => {
+  it('ignores X-Forwarded-For unless the proxy is trusted', () => {
+    const req = {
+      headers: { 'x-forwarded-for': '198.51.100.7', 'user-agent': browser },
+      socket: { remoteAddress: '10.0.0.1' },
+    } as unknown as IncomingMessage;
+
+    expect(requestViewContext(req, { sessionId: 's1' })).toEqual({
+      sessionId: 's1',
+      address: '10.0.0.1',
+      userAgent: browser,
+      referrer: null,
+    });
+  });
+});
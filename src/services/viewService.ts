@@ -0,0 +1,180 @@
+// src/services/viewService.ts
+import { createHash, randomBytes } from 'crypto';
+import type { IncomingMessage } from 'http';
+import { Prisma } from '@prisma/client';
+import { LRUCache } from 'lru-cache';
+import { prisma } from '../lib/prisma';
+import { pubsub, SUBSCRIPTION_EVENTS } from '../lib/pubsub';
+import { classifyUserAgent, isBot } from '../utils/userAgent';
+
+export interface ViewContext {
+  sessionId?: string | null;
+  address?: string | null;
+  userAgent?: string | null;
+  referrer?: string | null;
+}
+
+// Repeat views of an article by one visitor within this window count once
+const DEDUPE_WINDOW_MS = (Number(process.env.VIEW_DEDUPE_WINDOW_MINUTES) || 30) * 60 * 1000;
+
+const DEFAULT_FLUSH_INTERVAL_MS = 5000;
+
+// Buffered views that trigger a write before the next interval
+const FLUSH_BATCH_SIZE = 500;
+
+// Views kept while the database is unreachable; further views are dropped
+const MAX_BUFFERED_VIEWS = 50_000;
+
+// Without a configured salt, visitor hashes change whenever the server restarts
+const VISITOR_HASH_SALT = process.env.VIEW_HASH_SALT || randomBytes(16).toString('hex');
+
+// Clients can send X-Forwarded-For themselves, so it only names the client
+// when a reverse proxy in front of the server sets it
+const TRUST_PROXY = process.env.TRUST_PROXY === 'true';
+
+// Visitors seen per article within the dedupe window. Kept in memory, so each
+// replica dedupes on its own.
+const recentViews = new LRUCache<string, true>({ max: 100_000, ttl: DEDUPE_WINDOW_MS });
+
+let pending: Prisma.ArticleViewCreateManyInput[] = [];
+let flushing: Promise<number> | null = null;
+
+/**
+ * Count a view of an article unless it comes from a bot or repeats the same
+ * visitor's view within the dedupe window. Counted views are buffered and
+ * written in batches; returns whether this one was counted.
+ */
+export function recordView(articleId: string, context: ViewContext): boolean {
+  if (isBot(context.userAgent)) return false;
+
+  const identities = visitorIdentities(context);
+  const keys = identities.map((identity) => `${articleId}:${hashIdentity(identity)}`);
+  if (keys.some((key) => recentViews.has(key))) return false;
+  if (pending.length >= MAX_BUFFERED_VIEWS) return false;
+  for (const key of keys) recentViews.set(key, true);
+  const visitorHash = hashIdentity(identities.join('|'));
+
+  pending.push({
+    articleId,
+    visitorHash,
+    viewedAt: new Date(),
+    referrer: referrerHost(context.referrer),
+    agentClass: classifyUserAgent(context.userAgent),
+  });
+  if (pending.length >= FLUSH_BATCH_SIZE) void flushViews();
+  return true;
+}
+
+/**
+ * Who is viewing, as seen on an HTTP request (or a WebSocket upgrade). An
+ * explicit session id or referrer from the client takes precedence, since a
+ * single-page app's own requests carry the app's URL as referer. The address
+ * is the socket's, or the first X-Forwarded-For entry with TRUST_PROXY set.
+ */
+export function requestViewContext(
+  req: IncomingMessage,
+  overrides: { sessionId?: string | null; referrer?: string | null } = {}
+): ViewContext {
+  const forwarded = TRUST_PROXY ? req.headers['x-forwarded-for'] : undefined;
+  const address = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0].trim();
+  return {
+    sessionId: overrides.sessionId || null,
+    address: address || req.socket?.remoteAddress || null,
+    userAgent: req.headers['user-agent'] ?? null,
+    referrer: overrides.referrer || req.headers.referer || null,
+  };
+}
+
+/**
+ * Write buffered views and add them to the articles' viewCount, then notify
+ * `viewCountUpdated` subscribers. Concurrent calls share one write. Views of
+ * articles purged in the meantime are dropped; on failure the batch is kept
+ * for the next attempt. Returns the number of views written.
+ */
+export function flushViews(): Promise<number> {
+  flushing ??= writePending().finally(() => {
+    flushing = null;
+  });
+  return flushing;
+}
+
+/**
+ * Flush buffered views periodically. Returns a function that stops the timer
+ * and writes what is left.
+ */
+export function startViewWriter(
+  intervalMs = Number(process.env.VIEW_FLUSH_INTERVAL_MS) || DEFAULT_FLUSH_INTERVAL_MS
+) {
+  const timer = setInterval(() => void flushViews(), intervalMs);
+  timer.unref();
+
+  return async () => {
+    clearInterval(timer);
+    await flushViews();
+  };
+}
+
+async function writePending() {
+  const batch = pending;
+  pending = [];
+  if (batch.length === 0) return 0;
+
+  const counts = new Map<string, number>();
+  for (const view of batch) counts.set(view.articleId, (counts.get(view.articleId) ?? 0) + 1);
+
+  let written: Prisma.ArticleViewCreateManyInput[];
+  try {
+    written = await prisma.$transaction(async (tx) => {
+      // One statement for the whole batch; raw SQL also leaves updatedAt alone
+      const updated = await tx.$queryRaw<{ id: string }[]>`
+        UPDATE "Article" a
+        SET "viewCount" = a."viewCount" + v."views"
+        FROM unnest(${[...counts.keys()]}::text[], ${[...counts.values()]}::int[]) AS v("id", "views")
+        WHERE a."id" = v."id"
+        RETURNING a."id"
+      `;
+      const existing = new Set(updated.map((row) => row.id));
+      const views = batch.filter((view) => existing.has(view.articleId));
+      await tx.articleView.createMany({ data: views });
+      return views;
+    });
+  } catch (error: unknown) {
+    console.error('Writing article views failed:', error instanceof Error ? error.message : error);
+    pending = [...batch, ...pending].slice(0, MAX_BUFFERED_VIEWS);
+    return 0;
+  }
+
+  try {
+    const articles = await prisma.article.findMany({
+      where: { id: { in: [...new Set(written.map((view) => view.articleId))] } },
+    });
+    for (const article of articles) {
+      await pubsub.publish(SUBSCRIPTION_EVENTS.VIEW_COUNT_UPDATED, { viewCountUpdated: article });
+    }
+  } catch (error: unknown) {
+    console.warn('Publishing view counts failed:', error instanceof Error ? error.message : error);
+  }
+  return written.length;
+}
+
+// What identifies a visitor: the address and user agent the server saw, and
+// the client's session id when it sends one. A view repeats an earlier one
+// when any of them matches, so made-up session ids do not count extra views.
+function visitorIdentities({ sessionId, address, userAgent }: ViewContext) {
+  const client = `client:${address ?? ''}|${userAgent ?? ''}`;
+  return sessionId ? [client, `session:${sessionId}`] : [client];
+}
+
+// Only salted hashes of identities are kept, in memory and in the database
+function hashIdentity(identity: string) {
+  return createHash('sha256').update(`${VISITOR_HASH_SALT}:${identity}`).digest('hex');
+}
+
+function referrerHost(referrer: string | null | undefined) {
+  if (!referrer) return null;
+  try {
+    return new URL(referrer).host.toLowerCase() || null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,57 @@
+import { Article, ArticleStatus } from '@prisma/client';
+import { GraphQLError } from 'graphql';
+import { invalidateCache } from '../lib/cache';
+import { prisma } from '../lib/prisma';
+import { pubsub } from '../lib/pubsub';
+import type { Viewer } from './authService';
+import { transitionArticle } from './workflowService';
+
+jest.mock('../lib/prisma', () => ({
+  prisma: {
+    article: { findFirst: jest.fn(), updateMany: jest.fn(), findUniqueOrThrow: jest.fn() },
+  },
+}));
+jest.mock('../lib/pubsub', () => ({
+  pubsub: { publish: jest.fn() },
+  SUBSCRIPTION_EVENTS: { ARTICLE_PUBLISHED: 'ARTICLE_PUBLISHED' },
+}));
+jest.mock('../lib/cache', () => ({ invalidateCache: jest.fn() }));
+
+const article = jest.mocked(prisma.article);
+const admin: Viewer = { id: 'k1', name: 'Admin', role: 'ADMIN', kind: 'apiKey' };
+const inReview = { id: 'a1', status: ArticleStatus.IN_REVIEW, deletedAt: null } as Article;
+
+describe('transitionArticle', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    article.findFirst.mockResolvedValue(inReview);
+  });
+
+  it('only updates the article while it keeps the status checked', async () => {
+    const published = { ...inReview, status: ArticleStatus.PUBLISHED };
+    article.updateMany.mockResolvedValue({ count: 1 });
+    article.findUniqueOrThrow.mockResolvedValue(published);
+
+    expect(await transitionArticle('a1', ArticleStatus.PUBLISHED, admin)).toBe(published);
+    expect(article.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { id: 'a1', status: ArticleStatus.IN_REVIEW, deletedAt: null },
+      })
+    );
+    expect(invalidateCache).toHaveBeenCalled();
+    expect(pubsub.publish).toHaveBeenCalledWith('ARTICLE_PUBLISHED', {
+      articlePublished: published,
+    });
+  });
+
+  it('reports a conflict when the status changed concurrently', async () => {
+    article.updateMany.mockResolvedValue({ count: 0 });
+
+    const error = await transitionArticle('a1', ArticleStatus.PUBLISHED, admin).catch((e) => e);
+
+    expect(error).toBeInstanceOf(GraphQLError);
+    expect(error.extensions.code).toBe('CONFLICT');
+    expect(invalidateCache).not.toHaveBeenCalled();
+    expect(pubsub.publish).not.toHaveBeenCalled();
+  });
+});
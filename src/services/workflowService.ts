@@ -0,0 +1,140 @@
+// src/services/workflowService.ts
+import { ArticleStatus } from '@prisma/client';
+import { GraphQLError } from 'graphql';
+import { prisma } from '../lib/prisma';
+import { pubsub, SUBSCRIPTION_EVENTS } from '../lib/pubsub';
+import { invalidateCache } from '../lib/cache';
+import { forbidden, hasRole, Role, Viewer } from './authService';
+
+/**
+ * Allowed status changes and the role each one needs. Editors move their own
+ * work through review; only admins decide what goes live or comes down.
+ */
+const TRANSITIONS: Record<ArticleStatus, Partial<Record<ArticleStatus, Role>>> = {
+  DRAFT: { IN_REVIEW: 'EDITOR', ARCHIVED: 'EDITOR', SCHEDULED: 'ADMIN', PUBLISHED: 'ADMIN' },
+  IN_REVIEW: { DRAFT: 'EDITOR', SCHEDULED: 'ADMIN', PUBLISHED: 'ADMIN', ARCHIVED: 'ADMIN' },
+  SCHEDULED: { DRAFT: 'ADMIN', PUBLISHED: 'ADMIN', ARCHIVED: 'ADMIN' },
+  PUBLISHED: { DRAFT: 'ADMIN', ARCHIVED: 'ADMIN' },
+  ARCHIVED: { DRAFT: 'EDITOR', PUBLISHED: 'ADMIN' },
+};
+
+const DEFAULT_SCHEDULER_INTERVAL_MS = 30 * 1000;
+
+/**
+ * Move an article to `to`, enforcing the transition table. Scheduling needs
+ * a future `publishAt`; publishing stamps `publishedAt` with the go-live time.
+ * The update only applies while the article still has the status checked, so
+ * a concurrent transition or scheduled publish makes this one fail with
+ * CONFLICT instead of skipping the table.
+ */
+export async function transitionArticle(
+  id: string,
+  to: ArticleStatus,
+  viewer: Viewer | null,
+  options: { publishAt?: string | null } = {}
+) {
+  const article = await prisma.article.findFirst({ where: { id, deletedAt: null } });
+  if (!article) throw new GraphQLError('Article not found');
+
+  const rescheduling = article.status === to && to === ArticleStatus.SCHEDULED;
+  if (article.status === to && !rescheduling) return article;
+
+  // Rescheduling needs the same role as scheduling in the first place
+  const role = rescheduling ? 'ADMIN' : TRANSITIONS[article.status][to];
+  if (!role) {
+    throw new GraphQLError(`Cannot move an article from ${article.status} to ${to}`, {
+      extensions: { code: 'BAD_USER_INPUT' },
+    });
+  }
+  if (!hasRole(viewer, role)) throw forbidden(role);
+
+  let publishAt: Date | null = null;
+  if (to === ArticleStatus.SCHEDULED) {
+    publishAt = new Date(options.publishAt ?? '');
+    if (Number.isNaN(publishAt.getTime()) || publishAt.getTime() <= Date.now()) {
+      throw new GraphQLError('publishAt must be a valid date in the future', {
+        extensions: { code: 'BAD_USER_INPUT' },
+      });
+    }
+  }
+
+  const { count } = await prisma.article.updateMany({
+    where: { id, status: article.status, deletedAt: null },
+    data: {
+      status: to,
+      publishAt,
+      ...(to === ArticleStatus.PUBLISHED && { publishedAt: new Date() }),
+    },
+  });
+  if (count === 0) {
+    throw new GraphQLError(`Article is no longer ${article.status}; reload it and try again`, {
+      extensions: { code: 'CONFLICT' },
+    });
+  }
+  const updated = await prisma.article.findUniqueOrThrow({ where: { id } });
+
+  // Anything entering or leaving PUBLISHED changes what public queries return
+  if (to === ArticleStatus.PUBLISHED || article.status === ArticleStatus.PUBLISHED) {
+    await invalidateCache();
+  }
+  if (to === ArticleStatus.PUBLISHED) {
+    await pubsub.publish(SUBSCRIPTION_EVENTS.ARTICLE_PUBLISHED, { articlePublished: updated });
+  }
+  return updated;
+}
+
+/**
+ * Publish every SCHEDULED article whose `publishAt` has passed. Each row is
+ * claimed with a conditional update, so concurrent instances never publish
+ * (or announce) the same article twice.
+ */
+export async function publishDueArticles(now = new Date()) {
+  const due = await prisma.article.findMany({
+    where: { status: ArticleStatus.SCHEDULED, publishAt: { lte: now }, deletedAt: null },
+    select: { id: true, publishAt: true },
+  });
+
+  let published = 0;
+  for (const { id, publishAt } of due) {
+    const { count } = await prisma.article.updateMany({
+      where: { id, status: ArticleStatus.SCHEDULED },
+      data: { status: ArticleStatus.PUBLISHED, publishedAt: publishAt!, publishAt: null },
+    });
+    if (count === 0) continue;
+
+    published++;
+    const article = await prisma.article.findUnique({ where: { id } });
+    await pubsub.publish(SUBSCRIPTION_EVENTS.ARTICLE_PUBLISHED, { articlePublished: article });
+  }
+
+  if (published > 0) await invalidateCache();
+  return published;
+}
+
+/**
+ * Run `publishDueArticles` periodically. Returns a function that stops it.
+ */
+export function startPublishScheduler(
+  intervalMs = Number(process.env.PUBLISH_SCHEDULER_INTERVAL_MS) || DEFAULT_SCHEDULER_INTERVAL_MS
+) {
+  let running = false;
+
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const published = await publishDueArticles();
+      if (published > 0) console.log(`Published ${published} scheduled article(s)`);
+    } catch (error: unknown) {
+      console.error('Scheduled publishing failed:', error instanceof Error ? error.message : error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(tick, intervalMs);
+  timer.unref();
+  void tick();
+
+  return () => clearInterval(timer);
+}
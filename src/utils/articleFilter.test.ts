@@ -0,0 +1,73 @@
+import { buildArticleSqlWhere, buildArticleWhere, hasSearchTerm, PUBLISHED } from './articleFilter';
+
+describe('searchTerm filters', () => {
+  it('match the search vector in SQL', () => {
+    const where = buildArticleSqlWhere({ searchTerm: 'climate change' });
+    expect(where.sql).toContain('a."searchVector" @@ (websearch_to_tsquery(');
+    expect(where.sql).not.toMatch(/ILIKE/i);
+    expect(where.values).toContain('climate change');
+  });
+
+  it('are found wherever they are nested', () => {
+    expect(hasSearchTerm({ searchTerm: 'climate' })).toBe(true);
+    expect(hasSearchTerm({ or: [{ minWordCount: 100 }, { not: { searchTerm: 'budget' } }] })).toBe(
+      true
+    );
+    expect(hasSearchTerm({ and: [{ minWordCount: 100 }] })).toBe(false);
+    expect(hasSearchTerm(null)).toBe(false);
+  });
+
+  it('cannot be compiled for Prisma', () => {
+    expect(() => buildArticleWhere({ and: [{ searchTerm: 'climate' }] })).toThrow(
+      'Search terms can only be matched in SQL'
+    );
+  });
+});
+
+describe('filter composition', () => {
+  it('requires every field of one filter', () => {
+    const where = buildArticleWhere({ minWordCount: 100, maxWordCount: 500 });
+    expect(where).toEqual({
+      AND: [{ wordCount: { gte: 100 } }, { wordCount: { lte: 500 } }],
+      ...PUBLISHED,
+    });
+
+    const sql = buildArticleSqlWhere({ minWordCount: 100, maxWordCount: 500 });
+    expect(sql.sql).toContain('(a."wordCount" >= ? AND a."wordCount" <= ?)');
+    expect(sql.values).toEqual([100, 500]);
+  });
+
+  it('nests and, or and not groups', () => {
+    const filter = {
+      or: [{ minWordCount: 100 }, { not: { language: 'pt-BR' } }],
+    };
+    expect(buildArticleWhere(filter)).toEqual({
+      OR: [{ wordCount: { gte: 100 } }, { NOT: { language: 'pt' } }],
+      ...PUBLISHED,
+    });
+    expect(buildArticleSqlWhere(filter).sql).toContain(
+      '((a."wordCount" >= ?) OR (NOT ((a."language" = ?))))'
+    );
+  });
+
+  it('treats empty groups like Prisma: and [] matches all, or [] nothing', () => {
+    expect(buildArticleWhere({ and: [] })).toEqual({ AND: [], ...PUBLISHED });
+    expect(buildArticleWhere({ or: [] })).toEqual({ OR: [], ...PUBLISHED });
+    expect(buildArticleSqlWhere({ and: [] }).sql).toMatch(/AND \(TRUE\)$/);
+    expect(buildArticleSqlWhere({ or: [] }).sql).toMatch(/AND \(FALSE\)$/);
+  });
+
+  it('limits nesting depth on both paths', () => {
+    let filter = {};
+    for (let i = 0; i < 7; i++) filter = { not: filter };
+    expect(() => buildArticleWhere(filter)).toThrow('nested at most 5 levels');
+    expect(() => buildArticleSqlWhere(filter)).toThrow('nested at most 5 levels');
+  });
+
+  it('rejects invalid dates and languages', () => {
+    expect(() => buildArticleWhere({ publishedAfter: 'soon' })).toThrow(
+      'Invalid date for publishedAfter: soon'
+    );
+    expect(() => buildArticleSqlWhere({ language: 'english' })).toThrow('Invalid language');
+  });
+});
@@ -0,0 +1,314 @@
+// src/utils/articleFilter.ts
+import { ArticleStatus, Prisma } from '@prisma/client';
+import { GraphQLError } from 'graphql';
+import { categorySubtreeSql, categorySubtreeWhere } from './categoryTree';
+import { normalizeLanguage, searchTsQuery } from './language';
+import { normalizeTagName } from './tagNames';
+
+export interface ArticleFilter {
+  categoryId?: string | null;
+  categoryIds?: string[] | null;
+  includeSubcategories?: boolean | null;
+  author?: string | null;
+  authors?: string[] | null;
+  source?: string | null;
+  sources?: string[] | null;
+  language?: string | null;
+  entityIds?: string[] | null;
+  tags?: string[] | null;
+  excludeTags?: string[] | null;
+  publishedAfter?: string | null;
+  publishedBefore?: string | null;
+  minWordCount?: number | null;
+  maxWordCount?: number | null;
+  sentiment?: { min: number; max: number } | null;
+  searchTerm?: string | null;
+  and?: ArticleFilter[] | null;
+  or?: ArticleFilter[] | null;
+  not?: ArticleFilter | null;
+}
+
+// Guards against pathological nesting of and/or/not groups
+const MAX_FILTER_DEPTH = 5;
+
+// Articles in the trash are hidden from every read unless explicitly requested
+export const NOT_DELETED = { deletedAt: null } satisfies Prisma.ArticleWhereInput;
+
+// What public queries may return: live articles that are not in the trash
+export const PUBLISHED = {
+  ...NOT_DELETED,
+  status: ArticleStatus.PUBLISHED,
+} satisfies Prisma.ArticleWhereInput;
+
+const VISIBLE_SQL = Prisma.sql`a."deletedAt" IS NULL AND a."status" = 'PUBLISHED'`;
+
+/**
+ * Compile a GraphQL ArticleFilter into a Prisma `where` clause. Every field
+ * of one filter object must match (AND); `and`, `or` and `not` nest further
+ * filters. This is the single translation used by all article resolvers.
+ *
+ * Prisma cannot express full-text matches: filters with a search term anywhere
+ * (see `hasSearchTerm`) must be queried through `buildArticleSqlWhere`.
+ */
+export function buildArticleWhere(filter?: ArticleFilter | null): Prisma.ArticleWhereInput {
+  return { ...compilePrisma(filter ?? {}, 0), ...PUBLISHED };
+}
+
+/**
+ * Same filter as `buildArticleWhere`, rendered as a SQL condition for raw
+ * queries. Expects the Article table to be aliased as `a`.
+ */
+export function buildArticleSqlWhere(filter?: ArticleFilter | null): Prisma.Sql {
+  return Prisma.sql`${VISIBLE_SQL} AND ${compileSql(filter ?? {}, 0)}`;
+}
+
+/**
+ * Whether `filter` or any filter nested in it has a search term, which only
+ * the SQL translation can match.
+ */
+export function hasSearchTerm(filter?: ArticleFilter | null): boolean {
+  return containsSearchTerm(filter ?? {}, 0);
+}
+
+function containsSearchTerm(filter: ArticleFilter, depth: number): boolean {
+  checkDepth(depth);
+  const nested = [...(filter.and ?? []), ...(filter.or ?? []), ...(filter.not ? [filter.not] : [])];
+  return Boolean(filter.searchTerm) || nested.some((f) => containsSearchTerm(f, depth + 1));
+}
+
+function compilePrisma(filter: ArticleFilter, depth: number): Prisma.ArticleWhereInput {
+  checkDepth(depth);
+  const conditions: Prisma.ArticleWhereInput[] = [];
+
+  if (filter.categoryId) {
+    conditions.push(categoryWhere([filter.categoryId], filter.includeSubcategories));
+  }
+  if (filter.categoryIds) {
+    conditions.push(categoryWhere(filter.categoryIds, filter.includeSubcategories));
+  }
+  if (filter.author) conditions.push({ authors: { some: authorWhere([filter.author]) } });
+  if (filter.authors) conditions.push({ authors: { some: authorWhere(filter.authors) } });
+  if (filter.source) conditions.push({ publisher: sourceWhere([filter.source]) });
+  if (filter.sources) conditions.push({ publisher: sourceWhere(filter.sources) });
+  if (filter.language) conditions.push({ language: filterLanguage(filter.language) });
+  if (filter.entityIds) {
+    conditions.push({ entities: { some: { entityId: { in: filter.entityIds } } } });
+  }
+  if (filter.tags?.length) {
+    conditions.push({ tags: { some: tagWhere(filter.tags) } });
+  }
+  if (filter.excludeTags?.length) {
+    conditions.push({ tags: { none: tagWhere(filter.excludeTags) } });
+  }
+  if (filter.publishedAfter) {
+    conditions.push({ publishedAt: { gte: parseDate(filter.publishedAfter, 'publishedAfter') } });
+  }
+  if (filter.publishedBefore) {
+    conditions.push({ publishedAt: { lte: parseDate(filter.publishedBefore, 'publishedBefore') } });
+  }
+  if (filter.minWordCount != null) conditions.push({ wordCount: { gte: filter.minWordCount } });
+  if (filter.maxWordCount != null) conditions.push({ wordCount: { lte: filter.maxWordCount } });
+  if (filter.sentiment) {
+    conditions.push({ sentiment: { gte: filter.sentiment.min, lte: filter.sentiment.max } });
+  }
+  if (filter.searchTerm) {
+    throw new Error('Search terms can only be matched in SQL; use buildArticleSqlWhere');
+  }
+
+  // Nested groups
+  if (filter.and) {
+    conditions.push({ AND: filter.and.map((f) => compilePrisma(f, depth + 1)) });
+  }
+  if (filter.or) {
+    conditions.push({ OR: filter.or.map((f) => compilePrisma(f, depth + 1)) });
+  }
+  if (filter.not) {
+    conditions.push({ NOT: compilePrisma(filter.not, depth + 1) });
+  }
+
+  if (conditions.length === 0) return {};
+  return conditions.length === 1 ? conditions[0] : { AND: conditions };
+}
+
+function compileSql(filter: ArticleFilter, depth: number): Prisma.Sql {
+  checkDepth(depth);
+  const conditions: Prisma.Sql[] = [];
+
+  if (filter.categoryId) {
+    conditions.push(categoryMatch([filter.categoryId], filter.includeSubcategories));
+  }
+  if (filter.categoryIds) {
+    conditions.push(categoryMatch(filter.categoryIds, filter.includeSubcategories));
+  }
+  if (filter.author) conditions.push(Prisma.sql`EXISTS (${authorMatch([filter.author])})`);
+  if (filter.authors) conditions.push(Prisma.sql`EXISTS (${authorMatch(filter.authors)})`);
+  if (filter.source) conditions.push(Prisma.sql`EXISTS (${sourceMatch([filter.source])})`);
+  if (filter.sources) conditions.push(Prisma.sql`EXISTS (${sourceMatch(filter.sources)})`);
+  if (filter.language) {
+    conditions.push(Prisma.sql`a."language" = ${filterLanguage(filter.language)}`);
+  }
+  if (filter.entityIds) {
+    const mentioned = sqlIn(Prisma.sql`ae."entityId"`, filter.entityIds);
+    conditions.push(
+      Prisma.sql`EXISTS (SELECT 1 FROM "ArticleEntity" ae WHERE ae."articleId" = a."id" AND ${mentioned})`
+    );
+  }
+  if (filter.tags?.length) {
+    conditions.push(Prisma.sql`EXISTS (${tagMatch(filter.tags)})`);
+  }
+  if (filter.excludeTags?.length) {
+    conditions.push(Prisma.sql`NOT EXISTS (${tagMatch(filter.excludeTags)})`);
+  }
+  if (filter.publishedAfter) {
+    const after = parseDate(filter.publishedAfter, 'publishedAfter');
+    conditions.push(Prisma.sql`a."publishedAt" >= ${after}`);
+  }
+  if (filter.publishedBefore) {
+    const before = parseDate(filter.publishedBefore, 'publishedBefore');
+    conditions.push(Prisma.sql`a."publishedAt" <= ${before}`);
+  }
+  if (filter.minWordCount != null) {
+    conditions.push(Prisma.sql`a."wordCount" >= ${filter.minWordCount}`);
+  }
+  if (filter.maxWordCount != null) {
+    conditions.push(Prisma.sql`a."wordCount" <= ${filter.maxWordCount}`);
+  }
+  if (filter.sentiment) {
+    conditions.push(
+      Prisma.sql`a."sentiment" BETWEEN ${filter.sentiment.min} AND ${filter.sentiment.max}`
+    );
+  }
+  if (filter.searchTerm) conditions.push(searchMatch(filter.searchTerm));
+
+  // Nested groups; empty lists behave like Prisma's (AND [] is true, OR [] is false)
+  if (filter.and) {
+    const nested = filter.and.map((f) => compileSql(f, depth + 1));
+    conditions.push(joinSql(nested, 'AND', 'TRUE'));
+  }
+  if (filter.or) {
+    const nested = filter.or.map((f) => compileSql(f, depth + 1));
+    conditions.push(joinSql(nested, 'OR', 'FALSE'));
+  }
+  if (filter.not) {
+    conditions.push(Prisma.sql`NOT (${compileSql(filter.not, depth + 1)})`);
+  }
+
+  return joinSql(conditions, 'AND', 'TRUE');
+}
+
+function joinSql(parts: Prisma.Sql[], operator: 'AND' | 'OR', empty: 'TRUE' | 'FALSE') {
+  if (parts.length === 0) return Prisma.raw(empty);
+  return Prisma.sql`(${Prisma.join(parts, ` ${operator} `)})`;
+}
+
+// `IN ()` is invalid SQL, so an empty list simply matches nothing
+function sqlIn(column: Prisma.Sql, values: string[]): Prisma.Sql {
+  return values.length > 0 ? Prisma.sql`${column} IN (${Prisma.join(values)})` : Prisma.sql`FALSE`;
+}
+
+// Search terms match like searchArticles queries: against the weighted
+// `searchVector`, parsed with every search configuration
+function searchMatch(term: string): Prisma.Sql {
+  return Prisma.sql`a."searchVector" @@ ${searchTsQuery(term)}`;
+}
+
+// Tag filters match names in any case, and aliases of a tag
+function tagWhere(names: string[]): Prisma.TagWhereInput {
+  const keys = names.map(normalizeTagName);
+  return {
+    OR: [{ normalizedName: { in: keys } }, { aliases: { some: { name: { in: keys } } } }],
+  };
+}
+
+function tagMatch(names: string[]): Prisma.Sql {
+  const keys = Prisma.join(names.map(normalizeTagName));
+  return Prisma.sql`
+    SELECT 1 FROM "_ArticleToTag" at
+    JOIN "Tag" t ON t."id" = at."B"
+    WHERE at."A" = a."id"
+      AND (t."normalizedName" IN (${keys})
+        OR EXISTS (SELECT 1 FROM "TagAlias" ta WHERE ta."tagId" = t."id" AND ta."name" IN (${keys})))
+  `;
+}
+
+function categoryWhere(
+  ids: string[],
+  includeSubcategories?: boolean | null
+): Prisma.ArticleWhereInput {
+  return includeSubcategories
+    ? { category: categorySubtreeWhere(ids) }
+    : { categoryId: { in: ids } };
+}
+
+function categoryMatch(ids: string[], includeSubcategories?: boolean | null): Prisma.Sql {
+  if (!includeSubcategories) return sqlIn(Prisma.sql`a."categoryId"`, ids);
+  return Prisma.sql`a."categoryId" IN (${categorySubtreeSql(ids)})`;
+}
+
+// Author filters match a credited author by name (any case) or slug, not the
+// display byline, so "Jane Doe" finds her co-authored articles too
+function authorWhere(names: string[]): Prisma.AuthorWhereInput {
+  return { OR: [{ name: { in: names, mode: 'insensitive' } }, { slug: { in: names } }] };
+}
+
+function authorMatch(names: string[]): Prisma.Sql {
+  const lowered = names.map((name) => name.toLowerCase());
+  return Prisma.sql`
+    SELECT 1 FROM "_ArticleToAuthor" aa
+    JOIN "Author" au ON au."id" = aa."B"
+    WHERE aa."A" = a."id"
+      AND (${sqlIn(Prisma.sql`lower(au."name")`, lowered)} OR ${sqlIn(Prisma.sql`au."slug"`, names)})
+  `;
+}
+
+// Source filters match the publisher by name (any case), slug or alias, so
+// every spelling of a publisher finds the same articles
+function sourceWhere(names: string[]): Prisma.SourceWhereInput {
+  const lowered = names.map((name) => name.toLowerCase());
+  return {
+    OR: [
+      { name: { in: names, mode: 'insensitive' } },
+      { slug: { in: names } },
+      { aliases: { hasSome: lowered } },
+    ],
+  };
+}
+
+function sourceMatch(names: string[]): Prisma.Sql {
+  const lowered = names.map((name) => name.toLowerCase());
+  const aliases =
+    lowered.length > 0 ? Prisma.sql`s."aliases" && ${lowered}::text[]` : Prisma.sql`FALSE`;
+  return Prisma.sql`
+    SELECT 1 FROM "Source" s
+    WHERE s."id" = a."sourceId"
+      AND (${sqlIn(Prisma.sql`lower(s."name")`, lowered)} OR ${sqlIn(Prisma.sql`s."slug"`, names)} OR ${aliases})
+  `;
+}
+
+// Region tags such as `pt-BR` match the language, as articles store only that
+function filterLanguage(language: string) {
+  const code = normalizeLanguage(language);
+  if (!code) {
+    throw new GraphQLError(`Invalid language: ${language}; expected an ISO 639-1 code`, {
+      extensions: { code: 'BAD_USER_INPUT' },
+    });
+  }
+  return code;
+}
+
+function checkDepth(depth: number) {
+  if (depth > MAX_FILTER_DEPTH) {
+    const message = `Article filters can be nested at most ${MAX_FILTER_DEPTH} levels deep`;
+    throw new GraphQLError(message, { extensions: { code: 'BAD_USER_INPUT' } });
+  }
+}
+
+function parseDate(value: string, field: string): Date {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new GraphQLError(`Invalid date for ${field}: ${value}`, {
+      extensions: { code: 'BAD_USER_INPUT' },
+    });
+  }
+  return date;
+}
@@ -0,0 +1,53 @@
+import { parseAuthorCredit } from './authorNames';
+
+describe('parseAuthorCredit', () => {
+  it('splits co-authors sharing a role', () => {
+    expect(parseAuthorCredit('Jane Doe and John Roe, Contributor')).toEqual([
+      { name: 'Jane Doe', affiliation: 'Contributor' },
+      { name: 'John Roe', affiliation: 'Contributor' },
+    ]);
+  });
+
+  it('applies an outlet to the names before it', () => {
+    expect(parseAuthorCredit('By Jane Doe, Reuters; John Roe & Ann Lee, AP')).toEqual([
+      { name: 'Jane Doe', affiliation: 'Reuters' },
+      { name: 'John Roe', affiliation: 'AP' },
+      { name: 'Ann Lee', affiliation: 'AP' },
+    ]);
+  });
+
+  it('keeps a bio glued onto "Contributor" as the affiliation', () => {
+    expect(
+      parseAuthorCredit("Dr. Ann Smith, ContributorPediatrician & author of 'Kids & Health'")
+    ).toEqual([
+      {
+        name: 'Dr. Ann Smith',
+        affiliation: "ContributorPediatrician & author of 'Kids & Health'",
+      },
+    ]);
+  });
+
+  it('does not split a contributor bio on "and"', () => {
+    expect(
+      parseAuthorCredit('Jane Doe and John Roe, Contributor\nFounders of Smith and Roe, a law firm')
+    ).toEqual([
+      { name: 'Jane Doe', affiliation: 'Contributor Founders of Smith and Roe, a law firm' },
+      { name: 'John Roe', affiliation: 'Contributor Founders of Smith and Roe, a law firm' },
+    ]);
+  });
+
+  it('fixes the case of all-caps and lowercase names only', () => {
+    expect(parseAuthorCredit("JANE O'NEIL-DOE, ronald mcdonald, Ronald McDonald")).toEqual([
+      { name: "Jane O'Neil-Doe", affiliation: null },
+      { name: 'Ronald Mcdonald', affiliation: null },
+    ]);
+  });
+
+  it('drops placeholders and repeated names', () => {
+    expect(parseAuthorCredit('Unknown Author')).toEqual([]);
+    expect(parseAuthorCredit(null)).toEqual([]);
+    expect(parseAuthorCredit('Jane Doe, Reuters, jane doe')).toEqual([
+      { name: 'Jane Doe', affiliation: 'Reuters' },
+    ]);
+  });
+});
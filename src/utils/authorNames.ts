@@ -0,0 +1,81 @@
+// src/utils/authorNames.ts
+
+export interface AuthorCredit {
+  name: string;
+  affiliation: string | null;
+}
+
+// Credit segments that describe a role or outlet rather than a person
+const AFFILIATION_PATTERN =
+  /\b(contributor|contributing|editor|reporter|writer|correspondent|columnist|staff|intern|fellow|producer|host|blogger|journalist|associated press|ap|reuters|afp|huffpost|huffington post|the conversation|kaiser health news|news|media|magazine|press|wire)\b/i;
+
+// HuffPost credits end in "Contributor", often followed by a free-text bio
+// ("Contributor\nAuthor of ..."), which scraping sometimes glues on
+// ("ContributorPediatrician & author of ..."). The rest of the credit describes
+// the authors named before it, so it is not split further.
+const CONTRIBUTOR_TAIL = /[,;\n]\s*(contributor.*)$/is;
+
+// Placeholders that should not become authors
+const ANONYMOUS = new Set(['', 'unknown', 'unknown author', 'anonymous', 'staff']);
+
+/**
+ * Split a free-text byline into individual authors.
+ *
+ *   "Jane Doe and John Roe, Contributor"
+ *     -> [{ name: 'Jane Doe', affiliation: 'Contributor' },
+ *         { name: 'John Roe', affiliation: 'Contributor' }]
+ *
+ * Segments are separated by commas, "and", "&" and newlines. A segment that
+ * looks like a role or outlet applies to the names listed before it, as does
+ * everything from a "Contributor" segment on.
+ */
+export function parseAuthorCredit(credit: string | null | undefined): AuthorCredit[] {
+  const text = (credit ?? '').replace(/^\s*by\s+/i, '');
+  const tail = CONTRIBUTOR_TAIL.exec(text);
+  const segments = (tail ? text.slice(0, tail.index) : text)
+    .split(/\s*(?:,|;|\n|&|\band\b)\s*/i)
+    .map((segment) => segment.trim())
+    .filter(Boolean);
+
+  const authors: AuthorCredit[] = [];
+  let pending: AuthorCredit[] = [];
+
+  for (const segment of segments) {
+    if (AFFILIATION_PATTERN.test(segment) && authors.length + pending.length > 0) {
+      for (const author of pending) author.affiliation = normalizeWhitespace(segment);
+      authors.push(...pending);
+      pending = [];
+      continue;
+    }
+
+    const name = normalizeName(segment);
+    if (ANONYMOUS.has(name.toLowerCase())) continue;
+    pending.push({ name, affiliation: null });
+  }
+  if (tail) {
+    for (const author of pending) author.affiliation = normalizeWhitespace(tail[1]);
+  }
+  authors.push(...pending);
+
+  // The same person credited twice keeps the first, most specific entry
+  const seen = new Set<string>();
+  return authors.filter((author) => {
+    const key = author.name.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+function normalizeWhitespace(text: string) {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+// Fix ALL-CAPS and all-lowercase names; leave mixed case ("McDonald") alone
+function normalizeName(text: string) {
+  const name = normalizeWhitespace(text);
+  if (name !== name.toUpperCase() && name !== name.toLowerCase()) return name;
+  return name
+    .toLowerCase()
+    .replace(/(^|[\s'-])(\p{L})/gu, (_, sep, letter) => sep + letter.toUpperCase());
+}
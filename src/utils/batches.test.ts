@@ -0,0 +1,53 @@
+import { AfterId, forEachBatch } from './batches';
+
+// A table of rows still waiting for a backfill; handling a row fills it in,
+// unless it has nothing to fill in (like a byline naming nobody)
+function backfillTable(ids: string[], unfillable: string[] = []) {
+  const waiting = new Set(ids);
+  const handled: string[] = [];
+
+  const load = async (after: AfterId | undefined) =>
+    [...waiting]
+      .filter((id) => !after || id > after.id.gt)
+      .sort()
+      .slice(0, 2)
+      .map((id) => ({ id }));
+
+  const handle = async (batch: { id: string }[]) => {
+    for (const { id } of batch) {
+      handled.push(id);
+      if (!unfillable.includes(id)) waiting.delete(id);
+    }
+  };
+
+  return { load, handle, handled, waiting };
+}
+
+describe('forEachBatch', () => {
+  it('handles every row once when handled rows stop matching', async () => {
+    const table = backfillTable(['a', 'b', 'c', 'd', 'e']);
+
+    expect(await forEachBatch(table.load, table.handle)).toBe(5);
+    expect(table.handled).toEqual(['a', 'b', 'c', 'd', 'e']);
+    expect(table.waiting.size).toBe(0);
+  });
+
+  it('moves past rows that keep matching', async () => {
+    const table = backfillTable(['a', 'b', 'c', 'd', 'e'], ['b', 'd']);
+
+    expect(await forEachBatch(table.load, table.handle)).toBe(5);
+    expect(table.handled).toEqual(['a', 'b', 'c', 'd', 'e']);
+    expect([...table.waiting]).toEqual(['b', 'd']);
+  });
+
+  it('continues after the last id of the previous batch', async () => {
+    const load = jest
+      .fn()
+      .mockResolvedValueOnce([{ id: 'a' }, { id: 'b' }])
+      .mockResolvedValueOnce([]);
+
+    await forEachBatch(load, async () => undefined);
+
+    expect(load.mock.calls).toEqual([[undefined], [{ id: { gt: 'b' } }]]);
+  });
+});
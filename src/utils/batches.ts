@@ -0,0 +1,28 @@
+// src/utils/batches.ts
+
+export type AfterId = { id: { gt: string } };
+
+/**
+ * Hand the rows a query finds to `handle`, batch by batch in id order. `load`
+ * gets the condition selecting rows after the previous batch (none for the
+ * first) and must order by id. Returns the number of rows handled.
+ *
+ * Batches continue after the last id seen rather than from a Prisma cursor
+ * with `skip: 1`: handling a batch usually makes its rows stop matching the
+ * query, and skipping past a cursor row that no longer matches skips a row
+ * that still needs handling.
+ */
+export async function forEachBatch<T extends { id: string }>(
+  load: (after: AfterId | undefined) => Promise<T[]>,
+  handle: (batch: T[]) => Promise<void>
+): Promise<number> {
+  let handled = 0;
+  let after: AfterId | undefined;
+  for (;;) {
+    const batch = await load(after);
+    if (batch.length === 0) return handled;
+    await handle(batch);
+    handled += batch.length;
+    after = { id: { gt: batch[batch.length - 1].id } };
+  }
+}
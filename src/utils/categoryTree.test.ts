@@ -0,0 +1,23 @@
+import { categorySubtreeSql, categorySubtreeWhere, MAX_CATEGORY_DEPTH } from './categoryTree';
+
+describe('categorySubtreeWhere', () => {
+  it('matches the categories themselves and their descendants down to the max depth', () => {
+    const ids = ['news'];
+    const grandchild = { OR: [{ id: { in: ids } }, { parent: { id: { in: ids } } }] };
+    const child = { OR: [{ id: { in: ids } }, { parent: grandchild }] };
+    expect(MAX_CATEGORY_DEPTH).toBe(4);
+    expect(categorySubtreeWhere(ids)).toEqual({ OR: [{ id: { in: ids } }, { parent: child }] });
+  });
+});
+
+describe('categorySubtreeSql', () => {
+  it('matches nothing without ids', () => {
+    expect(categorySubtreeSql([]).sql).toBe('SELECT NULL::text WHERE FALSE');
+  });
+
+  it('walks the tree from the given ids, bounded by the max depth', () => {
+    const query = categorySubtreeSql(['news', 'sports']);
+    expect(query.sql).toContain('WITH RECURSIVE subtree');
+    expect(query.values).toEqual(['news', 'sports', MAX_CATEGORY_DEPTH]);
+  });
+});
@@ -0,0 +1,36 @@
+// src/utils/categoryTree.ts
+import { Prisma } from '@prisma/client';
+
+// Levels in the category tree, counting the root. Bounded so that subtree
+// filters can be unrolled into plain Prisma relation filters.
+export const MAX_CATEGORY_DEPTH = 4;
+
+/**
+ * Prisma condition matching the categories in `ids` and everything below
+ * them: a category matches when it, its parent, its grandparent, ... is one
+ * of `ids`.
+ */
+export function categorySubtreeWhere(ids: string[]): Prisma.CategoryWhereInput {
+  let where: Prisma.CategoryWhereInput = { id: { in: ids } };
+  for (let level = 1; level < MAX_CATEGORY_DEPTH; level++) {
+    where = { OR: [{ id: { in: ids } }, { parent: where }] };
+  }
+  return where;
+}
+
+/**
+ * Same subtree as `categorySubtreeWhere`, as a SQL query returning the ids.
+ */
+export function categorySubtreeSql(ids: string[]): Prisma.Sql {
+  if (ids.length === 0) return Prisma.sql`SELECT NULL::text WHERE FALSE`;
+  return Prisma.sql`
+    WITH RECURSIVE subtree AS (
+      SELECT c."id", 1 AS "level" FROM "Category" c WHERE c."id" IN (${Prisma.join(ids)})
+      UNION
+      SELECT c."id", s."level" + 1 FROM "Category" c
+      JOIN subtree s ON c."parentId" = s."id"
+      WHERE s."level" < ${MAX_CATEGORY_DEPTH}
+    )
+    SELECT "id" FROM subtree
+  `;
+}
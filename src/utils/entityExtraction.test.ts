@@ -0,0 +1,61 @@
+import { entityKey, extractEntities } from './entityExtraction';
+
+describe('extractEntities', () => {
+  it('finds known entities by name and alias', () => {
+    const entities = extractEntities(
+      'Apple faces EU inquiry',
+      'The E.U. opened an inquiry into Apple on Monday. Regulators in Germany and the U.S. ' +
+        'are watching closely.'
+    );
+
+    expect(entities).toEqual([
+      { type: 'ORGANIZATION', name: 'Apple', mentions: 2 },
+      { type: 'ORGANIZATION', name: 'European Union', mentions: 2 },
+      { type: 'PLACE', name: 'Germany', mentions: 1 },
+      { type: 'PLACE', name: 'United States', mentions: 1 },
+    ]);
+  });
+
+  it('matches known names case-sensitively', () => {
+    expect(extractEntities('Recipes', 'An apple a day keeps the doctor away.')).toEqual([]);
+  });
+
+  it('recognises names from their titles and suffixes', () => {
+    const entities = extractEntities(
+      'Budget vote',
+      'Sen. Jane Doe criticised Acme Corp. over its plans for Orange County.'
+    );
+
+    expect(entities).toEqual(
+      expect.arrayContaining([
+        { type: 'PERSON', name: 'Jane Doe', mentions: 1 },
+        { type: 'ORGANIZATION', name: 'Acme Corp.', mentions: 1 },
+        { type: 'PLACE', name: 'Orange County', mentions: 1 },
+      ])
+    );
+  });
+
+  it('credits a later surname to the full name', () => {
+    const entities = extractEntities(
+      'Council meeting',
+      'Jane Doe said the plan was sound. Later, Doe added that it would take years.'
+    );
+
+    expect(entities).toContainEqual({ type: 'PERSON', name: 'Jane Doe', mentions: 2 });
+  });
+
+  it('prefers the longest overlapping name', () => {
+    const entities = extractEntities(
+      'Campus news',
+      'The University of Texas announced a new dean.'
+    );
+
+    expect(entities).toEqual([{ type: 'ORGANIZATION', name: 'University of Texas', mentions: 1 }]);
+  });
+});
+
+describe('entityKey', () => {
+  it('ignores case, spacing and Unicode variants', () => {
+    expect(entityKey('  Ｊane   DOE ')).toBe('jane doe');
+  });
+});
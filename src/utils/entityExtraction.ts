@@ -0,0 +1,290 @@
+// src/utils/entityExtraction.ts
+import { EntityType } from '@prisma/client';
+
+export interface ExtractedEntity {
+  type: EntityType;
+  name: string;
+  mentions: number;
+}
+
+interface Mention {
+  type: EntityType;
+  name: string;
+  start: number;
+  end: number;
+}
+
+interface GazetteerEntry {
+  type: EntityType;
+  name: string;
+  aliases: string[];
+}
+
+// Entities per article that are kept, most mentioned first
+export const MAX_ENTITIES_PER_ARTICLE = 50;
+
+/**
+ * Well-known entities, matched case-sensitively on their name and aliases so
+ * that "Apple" the company is found but "apple" the fruit is not. Extend this
+ * list rather than adding special cases to the rules below.
+ */
+const GAZETTEER: GazetteerEntry[] = [
+  org('Apple', 'Apple Inc.'),
+  org('Google'),
+  org('Alphabet', 'Alphabet Inc.'),
+  org('Microsoft'),
+  org('Amazon', 'Amazon.com'),
+  org('Meta', 'Meta Platforms'),
+  org('Facebook'),
+  org('Twitter'),
+  org('Tesla'),
+  org('OpenAI'),
+  org('Netflix'),
+  org('Walmart'),
+  org('Disney', 'Walt Disney Company'),
+  org('United Nations', 'UN', 'U.N.'),
+  org('NATO'),
+  org('European Union', 'EU', 'E.U.'),
+  org('World Health Organization', 'WHO'),
+  org('Federal Reserve', 'Fed'),
+  org('Supreme Court'),
+  org('Congress'),
+  org('Senate'),
+  org('House of Representatives'),
+  org('White House'),
+  org('Pentagon'),
+  org('FBI'),
+  org('CIA'),
+  org('Democratic Party', 'Democrats'),
+  org('Republican Party', 'GOP', 'Republicans'),
+  person('Donald Trump', 'Trump'),
+  person('Joe Biden', 'Biden'),
+  person('Barack Obama', 'Obama'),
+  person('Hillary Clinton'),
+  person('Kamala Harris'),
+  person('Elon Musk', 'Musk'),
+  person('Vladimir Putin', 'Putin'),
+  person('Xi Jinping'),
+  place('United States', 'U.S.', 'US', 'USA', 'America'),
+  place('United Kingdom', 'U.K.', 'UK', 'Britain', 'Great Britain'),
+  place('Canada'),
+  place('Mexico'),
+  place('Brazil'),
+  place('Argentina'),
+  place('France'),
+  place('Germany'),
+  place('Italy'),
+  place('Spain'),
+  place('Portugal'),
+  place('Netherlands'),
+  place('Belgium'),
+  place('Switzerland'),
+  place('Sweden'),
+  place('Norway'),
+  place('Poland'),
+  place('Greece'),
+  place('Turkey'),
+  place('Russia'),
+  place('Ukraine'),
+  place('Israel'),
+  place('Iran'),
+  place('Iraq'),
+  place('Syria'),
+  place('Afghanistan'),
+  place('Saudi Arabia'),
+  place('Egypt'),
+  place('Nigeria'),
+  place('South Africa'),
+  place('Kenya'),
+  place('India'),
+  place('Pakistan'),
+  place('China'),
+  place('Japan'),
+  place('South Korea'),
+  place('North Korea'),
+  place('Australia'),
+  place('New Zealand'),
+  place('Europe'),
+  place('Africa'),
+  place('Asia'),
+  place('Middle East'),
+  place('New York City', 'NYC'),
+  place('New York'),
+  place('Washington, D.C.', 'Washington D.C.', 'D.C.'),
+  place('California'),
+  place('Texas'),
+  place('Florida'),
+  place('Los Angeles'),
+  place('Chicago'),
+  place('London'),
+  place('Paris'),
+  place('Berlin'),
+  place('Moscow'),
+  place('Beijing'),
+  place('Tokyo'),
+  place('Jerusalem'),
+  place('Gaza'),
+];
+
+// Titles that introduce a person's name: "Sen. Elizabeth Warren". Short forms
+// that are also ordinary words ("Gen", "Rep") need their period.
+const PERSON_TITLES =
+  'President|Vice President|Senator|Governor|Mayor|Judge|Justice|Prime Minister|' +
+  'Chancellor|Minister|Pope|King|Queen|Prince|Princess|CEO|Chairman|Chairwoman|Detective|' +
+  String.raw`(?:Mr|Mrs|Ms|Dr)\.?|(?:Sen|Rep|Gov|Gen|Prof|Sgt|Lt|Col)\.`;
+
+// Final words that make a capitalized phrase an organization: "Acme Corp."
+const ORGANIZATION_SUFFIXES =
+  'Inc|Corp|Corporation|Company|Co|Ltd|LLC|Group|Holdings|Bank|Foundation|Institute|' +
+  'University|College|Association|Agency|Department|Ministry|Council|Committee|Commission|' +
+  'Party|Union|Network|Airlines|Motors|Technologies|Labs';
+
+// Final words that make a capitalized phrase a place: "Orange County"
+const PLACE_SUFFIXES = 'County|Province|City|Island|Islands|Valley|Bay|Mountains|River|Lake';
+
+// Capitalized words that start sentences or headlines rather than names
+const NOT_NAMES = new Set(
+  (
+    'The A An This That These Those It He She They We I In On At For From With By And But Or ' +
+    'If When While After Before As Here There What Who Why How His Her Their Our My Its'
+  ).split(' ')
+);
+
+const NAME_WORD = String.raw`\p{Lu}[\p{L}'’-]*`;
+
+// Each rule captures the name in group 1. Organizations and places come first
+// so that "General Motors" is not read as a general's name.
+const RULES: [EntityType, RegExp][] = [
+  [
+    EntityType.ORGANIZATION,
+    new RegExp(String.raw`((?:${NAME_WORD} ){1,4}(?:${ORGANIZATION_SUFFIXES})\b\.?)`, 'gu'),
+  ],
+  [
+    EntityType.ORGANIZATION,
+    new RegExp(
+      String.raw`\b((?:University|Bank|Department|Ministry) of (?:the )?${NAME_WORD}(?: ${NAME_WORD}){0,2})`,
+      'gu'
+    ),
+  ],
+  [EntityType.PLACE, new RegExp(String.raw`((?:${NAME_WORD} ){1,3}(?:${PLACE_SUFFIXES}))\b`, 'gu')],
+  [
+    EntityType.PERSON,
+    new RegExp(String.raw`\b(?:${PERSON_TITLES}) (${NAME_WORD}(?: ${NAME_WORD}){0,2})`, 'gu'),
+  ],
+  [
+    EntityType.PERSON,
+    new RegExp(
+      String.raw`(${NAME_WORD} ${NAME_WORD})(?=,? (?:said|says|told|added|wrote)\b)`,
+      'gu'
+    ),
+  ],
+  [
+    EntityType.PERSON,
+    new RegExp(String.raw`\b(?:said|according to) (${NAME_WORD} ${NAME_WORD})`, 'gu'),
+  ],
+];
+
+const gazetteerPattern = new RegExp(
+  String.raw`(?<![\p{L}\p{N}])(` +
+    GAZETTEER.flatMap((entry) => [entry.name, ...entry.aliases])
+      .sort((a, b) => b.length - a.length)
+      .map(escapeRegExp)
+      .join('|') +
+    String.raw`)(?![\p{L}\p{N}])`,
+  'gu'
+);
+
+const gazetteerByAlias = new Map(
+  GAZETTEER.flatMap((entry) => [entry.name, ...entry.aliases].map((alias) => [alias, entry]))
+);
+
+/**
+ * Lookup key for an entity name: case, spacing and Unicode variants of one
+ * name share it.
+ */
+export function entityKey(name: string): string {
+  return name.normalize('NFKC').replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+/**
+ * People, organizations and places mentioned in an article, with how often
+ * each is mentioned, most mentioned first. Runs offline: known entities come
+ * from the gazetteer, others from rules on capitalized phrases ("Sen. Jane
+ * Doe", "Acme Corp.", "Orange County"). Rules skip the title, where every word
+ * is capitalized. After a person's full name, their surname alone counts as a
+ * further mention.
+ */
+export function extractEntities(title: string, content: string): ExtractedEntity[] {
+  const text = `${title}\n${content}`;
+  const contentStart = title.length + 1;
+  const found = new Map<string, ExtractedEntity>();
+  const taken: [number, number][] = [];
+
+  const record = ({ type, name, start, end }: Mention) => {
+    if (taken.some(([from, to]) => start < to && end > from)) return;
+    taken.push([start, end]);
+    const key = `${type}:${entityKey(name)}`;
+    const entity = found.get(key) ?? { type, name, mentions: 0 };
+    entity.mentions++;
+    found.set(key, entity);
+  };
+
+  const candidates: Mention[] = [];
+  for (const match of text.matchAll(gazetteerPattern)) {
+    const { type, name } = gazetteerByAlias.get(match[1])!;
+    candidates.push({ type, name, start: match.index!, end: match.index! + match[1].length });
+  }
+  for (const [type, pattern] of RULES) {
+    for (const match of content.matchAll(pattern)) {
+      const name = trimName(match[1]);
+      // A lone word left after trimming ("The Company") is not a name
+      if (!name || (name !== match[1] && !name.includes(' '))) continue;
+      const start = contentStart + match.index! + match[0].indexOf(name);
+      candidates.push({ type, name, start, end: start + name.length });
+    }
+  }
+
+  // Where candidates overlap the longest wins, so "University of Texas" beats
+  // "Texas"; on a tie the gazetteer, listed first, wins
+  candidates.sort((a, b) => b.end - b.start - (a.end - a.start)).forEach(record);
+
+  // "Jane Doe said ... Doe added": credit the surname to the full name
+  for (const person of [...found.values()]) {
+    const words = person.name.split(' ');
+    if (person.type !== EntityType.PERSON || words.length < 2) continue;
+    const surname = new RegExp(
+      String.raw`(?<![\p{L}\p{N}])${escapeRegExp(words[words.length - 1])}(?![\p{L}\p{N}])`,
+      'gu'
+    );
+    for (const match of text.matchAll(surname)) {
+      record({ ...person, start: match.index!, end: match.index! + match[0].length });
+    }
+  }
+
+  return [...found.values()]
+    .sort((a, b) => b.mentions - a.mentions || a.name.localeCompare(b.name))
+    .slice(0, MAX_ENTITIES_PER_ARTICLE);
+}
+
+// Drop sentence-initial words such as "The" that rules pick up with a name
+function trimName(name: string): string | null {
+  const words = name.split(' ');
+  while (words.length > 0 && NOT_NAMES.has(words[0])) words.shift();
+  return words.length > 0 ? words.join(' ') : null;
+}
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function org(name: string, ...aliases: string[]): GazetteerEntry {
+  return { type: EntityType.ORGANIZATION, name, aliases };
+}
+
+function person(name: string, ...aliases: string[]): GazetteerEntry {
+  return { type: EntityType.PERSON, name, aliases };
+}
+
+function place(name: string, ...aliases: string[]): GazetteerEntry {
+  return { type: EntityType.PLACE, name, aliases };
+}
@@ -0,0 +1,41 @@
+import { detectLanguage, normalizeLanguage, searchConfig } from './language';
+
+describe('detectLanguage', () => {
+  it.each([
+    ['en', 'The council approved the budget for schools and hospitals on Tuesday.'],
+    ['es', 'El gobierno anunció que la reforma de las pensiones se votará en el congreso.'],
+    ['fr', 'Le conseil a approuvé le budget des écoles et des hôpitaux pour la ville.'],
+    ['de', 'Der Stadtrat hat den Haushalt für die Schulen und die Krankenhäuser beschlossen.'],
+  ])('recognises %s from its common words', (language, text) => {
+    expect(detectLanguage(text)).toBe(language);
+  });
+
+  it('recognises non-Latin scripts by their characters', () => {
+    expect(detectLanguage('Правительство объявило о новых мерах')).toBe('ru');
+    expect(detectLanguage('東京で新しい博物館がオープンしました')).toBe('ja');
+  });
+
+  it('gives up on text too short or ambiguous to tell', () => {
+    expect(detectLanguage('Breaking news')).toBeNull();
+    expect(detectLanguage('12345 !!!')).toBeNull();
+  });
+});
+
+describe('normalizeLanguage', () => {
+  it('keeps the language of a region tag', () => {
+    expect(normalizeLanguage(' pt-BR ')).toBe('pt');
+    expect(normalizeLanguage('EN')).toBe('en');
+  });
+
+  it('rejects anything else', () => {
+    expect(normalizeLanguage('english')).toBeNull();
+  });
+});
+
+describe('searchConfig', () => {
+  it('indexes undetected articles as English and unsupported languages without stemming', () => {
+    expect(searchConfig('de')).toBe('german');
+    expect(searchConfig(null)).toBe('english');
+    expect(searchConfig('ja')).toBe('simple');
+  });
+});
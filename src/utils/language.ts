@@ -0,0 +1,133 @@
+// src/utils/language.ts
+import { Prisma } from '@prisma/client';
+
+/**
+ * Postgres text search configuration for each supported ISO 639-1 code.
+ * Mirrors `article_search_config()` in the multilingual migration, which
+ * builds Article."searchVector"; keep the two in sync.
+ */
+export const SEARCH_CONFIGS: Record<string, string> = {
+  ar: 'arabic',
+  da: 'danish',
+  de: 'german',
+  el: 'greek',
+  en: 'english',
+  es: 'spanish',
+  fi: 'finnish',
+  fr: 'french',
+  hu: 'hungarian',
+  id: 'indonesian',
+  it: 'italian',
+  nl: 'dutch',
+  no: 'norwegian',
+  pt: 'portuguese',
+  ro: 'romanian',
+  ru: 'russian',
+  sv: 'swedish',
+  tr: 'turkish',
+};
+
+// Articles whose language was never detected were indexed as English before
+// languages existed, so they keep that configuration
+const UNDETECTED_CONFIG = 'english';
+
+// Languages without a configuration are indexed without stemming or stopwords
+const FALLBACK_CONFIG = 'simple';
+
+// Very common words of each language written in Latin script. Scored against
+// the text to tell those languages apart.
+const STOPWORDS: Record<string, string[]> = {
+  en: words('the and of to in is that for it with was on are this by have from they be at'),
+  es: words('el la de que y en los se del las por un una con no es para su al lo'),
+  fr: words('le la de et les des en un une du est que qui dans pour pas au sur avec il'),
+  de: words('der die und in den von zu das mit sich des auf ist nicht ein eine dem auch es wird'),
+  it: words('il di che e la per un del della non una sono le con si gli nel anche al è'),
+  pt: words('de que e o a do da em um para com não uma os no se na por mais as'),
+  nl: words('de het een van en in is dat op te zijn voor met niet aan er om ook als bij'),
+};
+
+// Languages recognised by their writing system alone
+const SCRIPTS: [RegExp, string][] = [
+  [/[\p{Script=Hiragana}\p{Script=Katakana}]/gu, 'ja'], // checked before Han
+  [/\p{Script=Hangul}/gu, 'ko'],
+  [/\p{Script=Han}/gu, 'zh'],
+  [/\p{Script=Cyrillic}/gu, 'ru'],
+  [/\p{Script=Greek}/gu, 'el'],
+  [/\p{Script=Arabic}/gu, 'ar'],
+  [/\p{Script=Hebrew}/gu, 'he'],
+];
+
+// Below this many words, stopword counts are too small to trust
+const MIN_WORDS = 5;
+
+/**
+ * Best guess at the ISO 639-1 code of `text`, or null when it is too short or
+ * too ambiguous to tell. Runs offline: non-Latin scripts are recognised by
+ * their characters, Latin-script languages by their most common words.
+ */
+export function detectLanguage(text: string): string | null {
+  const letters = text.replace(/[^\p{L}]/gu, '').length;
+  if (letters === 0) return null;
+
+  for (const [pattern, language] of SCRIPTS) {
+    if ((text.match(pattern)?.length ?? 0) / letters > 0.3) return language;
+  }
+
+  const tokens = text.toLowerCase().match(/\p{L}+/gu) ?? [];
+  if (tokens.length < MIN_WORDS) return null;
+
+  const scores = Object.entries(STOPWORDS)
+    .map(([language, stopwords]) => ({
+      language,
+      hits: tokens.filter((token) => stopwords.includes(token)).length,
+    }))
+    .sort((a, b) => b.hits - a.hits);
+
+  // Related languages share stopwords, so require a clear winner
+  const [best, runnerUp] = scores;
+  if (best.hits < 2 || best.hits < runnerUp.hits * 1.2) return null;
+  return best.language;
+}
+
+/**
+ * Lowercased ISO 639-1 code, or null when `code` is not one. Accepts region
+ * tags such as `pt-BR` and keeps only the language.
+ */
+export function normalizeLanguage(code: string): string | null {
+  const match = /^([a-z]{2})(?:[-_][a-z0-9]+)*$/i.exec(code.trim());
+  return match ? match[1].toLowerCase() : null;
+}
+
+/**
+ * Text search configuration for an article language, matching how its
+ * `searchVector` was built.
+ */
+export function searchConfig(language: string | null | undefined): string {
+  if (!language) return UNDETECTED_CONFIG;
+  return SEARCH_CONFIGS[language] ?? FALLBACK_CONFIG;
+}
+
+/**
+ * Every configuration an article may be indexed with.
+ */
+export function allSearchConfigs(): string[] {
+  return [...new Set([UNDETECTED_CONFIG, FALLBACK_CONFIG, ...Object.values(SEARCH_CONFIGS)])];
+}
+
+/**
+ * `websearch_to_tsquery` of `query` for matching against `searchVector`. Each
+ * article is indexed with its own language's configuration, so the query is
+ * parsed with the configuration of `language` when given, and otherwise with
+ * every configuration in use.
+ */
+export function searchTsQuery(query: string, language?: string | null): Prisma.Sql {
+  const configs = language ? [searchConfig(language)] : allSearchConfigs();
+  return Prisma.sql`(${Prisma.join(
+    configs.map((config) => Prisma.sql`websearch_to_tsquery(${config}::regconfig, ${query})`),
+    ' || '
+  )})`;
+}
+
+function words(list: string) {
+  return list.split(' ');
+}
@@ -104,42 +104,111 @@ function getCompletenessLevel(wordCount: number): string {
   return 'DETAILED';
 }
 
+// Sentiment word lists per ISO 639-1 code (placeholder - use real NLP in production)
+const SENTIMENT_WORDS: Record<string, { positive: string[]; negative: string[] }> = {
+  en: {
+    positive: [
+      'good',
+      'great',
+      'excellent',
+      'amazing',
+      'wonderful',
+      'positive',
+      'success',
+      'win',
+      'happy',
+    ],
+    negative: ['bad', 'terrible', 'awful', 'negative', 'fail', 'loss', 'sad', 'angry', 'poor'],
+  },
+  es: {
+    positive: [
+      'bueno',
+      'buena',
+      'excelente',
+      'increíble',
+      'maravilloso',
+      'positivo',
+      'éxito',
+      'ganar',
+      'feliz',
+    ],
+    negative: [
+      'malo',
+      'mala',
+      'terrible',
+      'horrible',
+      'negativo',
+      'fracaso',
+      'pérdida',
+      'triste',
+      'pobre',
+    ],
+  },
+  fr: {
+    positive: [
+      'bon',
+      'bonne',
+      'excellent',
+      'incroyable',
+      'merveilleux',
+      'positif',
+      'succès',
+      'gagner',
+      'heureux',
+    ],
+    negative: [
+      'mauvais',
+      'mauvaise',
+      'terrible',
+      'horrible',
+      'négatif',
+      'échec',
+      'perte',
+      'triste',
+      'pauvre',
+    ],
+  },
+  de: {
+    positive: [
+      'gut',
+      'gute',
+      'großartig',
+      'ausgezeichnet',
+      'wunderbar',
+      'positiv',
+      'erfolg',
+      'gewinnen',
+      'glücklich',
+    ],
+    negative: [
+      'schlecht',
+      'schlechte',
+      'schrecklich',
+      'furchtbar',
+      'negativ',
+      'scheitern',
+      'verlust',
+      'traurig',
+      'arm',
+    ],
+  },
+};
+
 /**
- * Calculate basic sentiment from text (placeholder - use real NLP in production)
+ * Calculate basic sentiment from text (placeholder - use real NLP in production).
+ * Uses the word list for `language`; articles without a detected language are
+ * scored as English. Returns null for languages without a word list.
  */
-export function calculateSentiment(text: string): number {
-  // This is a simplified sentiment calculation
-  // In production, use a proper NLP library or API
-
-  const positiveWords = [
-    'good',
-    'great',
-    'excellent',
-    'amazing',
-    'wonderful',
-    'positive',
-    'success',
-    'win',
-    'happy',
-  ];
-  const negativeWords = [
-    'bad',
-    'terrible',
-    'awful',
-    'negative',
-    'fail',
-    'loss',
-    'sad',
-    'angry',
-    'poor',
-  ];
+export function calculateSentiment(text: string, language?: string | null): number | null {
+  const lexicon = SENTIMENT_WORDS[language ?? 'en'];
+  if (!lexicon) return null;
 
   const words = text.toLowerCase().split(/\s+/);
   let score = 0;
 
   words.forEach((word) => {
-    if (positiveWords.includes(word)) score += 1;
-    if (negativeWords.includes(word)) score -= 1;
+    if (lexicon.positive.includes(word)) score += 1;
+    if (lexicon.negative.includes(word)) score -= 1;
   });
 
   // Normalize to -1 to 1 range
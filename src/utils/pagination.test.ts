@@ -0,0 +1,110 @@
+import { GraphQLError } from 'graphql';
+import {
+  articleOrderBy,
+  articleOrderSql,
+  cursorSql,
+  cursorWhere,
+  decodeCursor,
+  encodeCursor,
+} from './pagination';
+
+describe('article cursors', () => {
+  const publishedAt = new Date('2024-03-01T12:00:00.000Z');
+
+  it('round-trips the sort value and id', () => {
+    const cursor = encodeCursor({ id: 'a1', publishedAt });
+    expect(decodeCursor(cursor)).toEqual({
+      f: 'PUBLISHED_AT',
+      v: '2024-03-01T12:00:00.000Z',
+      id: 'a1',
+    });
+  });
+
+  it('encodes a missing sort value as null', () => {
+    const sort = { field: 'SENTIMENT', order: 'DESC' } as const;
+    const cursor = encodeCursor({ id: 'a1', sentiment: null }, sort);
+    expect(decodeCursor(cursor, sort)).toEqual({ f: 'SENTIMENT', v: null, id: 'a1' });
+  });
+
+  it('rejects malformed cursors', () => {
+    expect(() => decodeCursor('not a cursor')).toThrow(GraphQLError);
+    const missingId = Buffer.from(JSON.stringify({ f: 'PUBLISHED_AT', v: 1 })).toString(
+      'base64url'
+    );
+    expect(() => decodeCursor(missingId)).toThrow('Invalid cursor');
+  });
+
+  it('rejects cursors of another sort field', () => {
+    const cursor = encodeCursor({ id: 'a1', viewCount: 5 }, { field: 'VIEW_COUNT', order: 'ASC' });
+    expect(() => decodeCursor(cursor)).toThrow('Cursor does not match the requested sort field');
+  });
+});
+
+describe('articleOrderBy', () => {
+  it('breaks ties on id in the sort direction', () => {
+    expect(articleOrderBy({ field: 'VIEW_COUNT', order: 'ASC' })).toEqual([
+      { viewCount: 'asc' },
+      { id: 'asc' },
+    ]);
+  });
+
+  it('keeps nulls last, and first when paging backwards', () => {
+    const sort = { field: 'SENTIMENT', order: 'DESC' } as const;
+    expect(articleOrderBy(sort)[0]).toEqual({ sentiment: { sort: 'desc', nulls: 'last' } });
+    expect(articleOrderBy(sort, true)[0]).toEqual({ sentiment: { sort: 'asc', nulls: 'first' } });
+  });
+});
+
+describe('cursorWhere', () => {
+  it('selects rows after the cursor position', () => {
+    const sort = { field: 'VIEW_COUNT', order: 'DESC' } as const;
+    expect(cursorWhere({ f: 'VIEW_COUNT', v: 10, id: 'a1' }, sort, 'after')).toEqual({
+      OR: [{ viewCount: { lt: 10 } }, { viewCount: 10, id: { lt: 'a1' } }],
+    });
+  });
+
+  it('includes null values after a non-null cursor on a nullable column', () => {
+    const sort = { field: 'SENTIMENT', order: 'ASC' } as const;
+    expect(cursorWhere({ f: 'SENTIMENT', v: 0.5, id: 'a1' }, sort, 'after')).toEqual({
+      OR: [{ sentiment: { gt: 0.5 } }, { sentiment: 0.5, id: { gt: 'a1' } }, { sentiment: null }],
+    });
+  });
+
+  it('only moves along ids once the cursor is in the nulls', () => {
+    const sort = { field: 'SENTIMENT', order: 'ASC' } as const;
+    expect(cursorWhere({ f: 'SENTIMENT', v: null, id: 'a1' }, sort, 'after')).toEqual({
+      sentiment: null,
+      id: { gt: 'a1' },
+    });
+  });
+});
+
+describe('SQL ordering and cursors', () => {
+  it('order like articleOrderBy', () => {
+    const sort = { field: 'SENTIMENT', order: 'DESC' } as const;
+    expect(articleOrderSql(sort).sql).toBe('a."sentiment" DESC NULLS LAST, a."id" DESC');
+    expect(articleOrderSql(sort, true).sql).toBe('a."sentiment" ASC NULLS FIRST, a."id" ASC');
+    expect(articleOrderSql().sql).toBe('a."publishedAt" DESC, a."id" DESC');
+  });
+
+  it('select rows after the cursor position like cursorWhere', () => {
+    const sort = { field: 'SENTIMENT', order: 'ASC' } as const;
+    const after = cursorSql({ f: 'SENTIMENT', v: 0.5, id: 'a1' }, sort, 'after');
+    expect(after.sql).toBe(
+      '(a."sentiment" > ? OR (a."sentiment" = ? AND a."id" > ?) OR a."sentiment" IS NULL)'
+    );
+    expect(after.values).toEqual([0.5, 0.5, 'a1']);
+
+    const inNulls = cursorSql({ f: 'SENTIMENT', v: null, id: 'a1' }, sort, 'before');
+    expect(inNulls.sql).toBe(
+      '(a."sentiment" IS NOT NULL OR (a."sentiment" IS NULL AND a."id" < ?))'
+    );
+  });
+
+  it('compare publish dates as timestamps', () => {
+    const cursor = { f: 'PUBLISHED_AT', v: '2024-03-01T12:00:00.000Z', id: 'a1' } as const;
+    const after = cursorSql(cursor, { field: 'PUBLISHED_AT', order: 'DESC' }, 'after');
+    expect(after.sql).toContain('a."publishedAt" < ?::timestamp');
+    expect(after.values[0]).toEqual(new Date('2024-03-01T12:00:00.000Z'));
+  });
+});
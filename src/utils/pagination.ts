@@ -0,0 +1,193 @@
+// src/utils/pagination.ts
+import { Prisma } from '@prisma/client';
+import { GraphQLError } from 'graphql';
+
+export type ArticleSortField =
+  | 'PUBLISHED_AT'
+  | 'VIEW_COUNT'
+  | 'WORD_COUNT'
+  | 'SENTIMENT'
+  | 'READING_TIME';
+
+export interface ArticleSort {
+  field: ArticleSortField;
+  order: 'ASC' | 'DESC';
+}
+
+export interface ConnectionArgs {
+  first?: number | null;
+  after?: string | null;
+  last?: number | null;
+  before?: string | null;
+  offset?: number | null;
+}
+
+type SortColumn = 'publishedAt' | 'viewCount' | 'wordCount' | 'sentiment' | 'readingTime';
+
+// Map GraphQL enum values to Prisma field names
+const SORT_COLUMNS: Record<ArticleSortField, SortColumn> = {
+  PUBLISHED_AT: 'publishedAt',
+  VIEW_COUNT: 'viewCount',
+  WORD_COUNT: 'wordCount',
+  SENTIMENT: 'sentiment',
+  READING_TIME: 'readingTime',
+};
+
+// Columns that may hold NULL and therefore need explicit null ordering
+const NULLABLE_COLUMNS: SortColumn[] = ['sentiment'];
+
+export const DEFAULT_SORT: ArticleSort = { field: 'PUBLISHED_AT', order: 'DESC' };
+export const MAX_PAGE_SIZE = 100;
+
+interface CursorPayload {
+  f: ArticleSortField;
+  v: string | number | null;
+  id: string;
+}
+
+export function sortColumn(sort: ArticleSort = DEFAULT_SORT): SortColumn {
+  return SORT_COLUMNS[sort.field] || 'publishedAt';
+}
+
+/**
+ * Order by the sort field with the id as a tie-breaker, so that every row has
+ * a unique position and cursors stay stable. NULLs always sort last in the
+ * requested direction; `reverse` flips everything for backward paging.
+ */
+export function articleOrderBy(
+  sort: ArticleSort = DEFAULT_SORT,
+  reverse = false
+): Prisma.ArticleOrderByWithRelationInput[] {
+  const column = sortColumn(sort);
+  const ascending = (sort.order === 'ASC') !== reverse;
+  const direction: Prisma.SortOrder = ascending ? 'asc' : 'desc';
+
+  const primary: Prisma.ArticleOrderByWithRelationInput = NULLABLE_COLUMNS.includes(column)
+    ? { [column]: { sort: direction, nulls: reverse ? 'first' : 'last' } }
+    : { [column]: direction };
+
+  return [primary, { id: direction }];
+}
+
+/**
+ * `articleOrderBy` as a SQL ORDER BY list, for raw queries with the Article
+ * table aliased as `a`.
+ */
+export function articleOrderSql(sort: ArticleSort = DEFAULT_SORT, reverse = false): Prisma.Sql {
+  const column = sortColumn(sort);
+  const ascending = (sort.order === 'ASC') !== reverse;
+  const direction = Prisma.raw(ascending ? 'ASC' : 'DESC');
+  const nulls = NULLABLE_COLUMNS.includes(column)
+    ? Prisma.raw(reverse ? ' NULLS FIRST' : ' NULLS LAST')
+    : Prisma.empty;
+
+  return Prisma.sql`${columnSql(column)} ${direction}${nulls}, a."id" ${direction}`;
+}
+
+/**
+ * Cursors are opaque to clients: base64url-encoded JSON holding the sort
+ * field, the row's value for that field and the row id.
+ */
+export function encodeCursor(
+  article: { id: string } & Partial<Record<SortColumn, Date | number | null>>,
+  sort: ArticleSort = DEFAULT_SORT
+) {
+  const value = article[sortColumn(sort)];
+  const payload: CursorPayload = {
+    f: sort.field,
+    v: value instanceof Date ? value.toISOString() : (value ?? null),
+    id: article.id,
+  };
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+export function decodeCursor(cursor: string, sort: ArticleSort = DEFAULT_SORT): CursorPayload {
+  let payload: CursorPayload;
+  try {
+    payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new GraphQLError('Invalid cursor', { extensions: { code: 'BAD_USER_INPUT' } });
+  }
+
+  if (!payload || typeof payload.id !== 'string' || !('v' in payload)) {
+    throw new GraphQLError('Invalid cursor', { extensions: { code: 'BAD_USER_INPUT' } });
+  }
+  if (payload.f !== sort.field) {
+    throw new GraphQLError('Cursor does not match the requested sort field', {
+      extensions: { code: 'BAD_USER_INPUT' },
+    });
+  }
+
+  return payload;
+}
+
+/**
+ * Build the keyset condition selecting rows strictly after (or before) the
+ * cursor position in the order produced by `articleOrderBy(sort)`.
+ */
+export function cursorWhere(
+  payload: CursorPayload,
+  sort: ArticleSort,
+  direction: 'after' | 'before'
+): Prisma.ArticleWhereInput {
+  const column = sortColumn(sort);
+  const nullable = NULLABLE_COLUMNS.includes(column);
+  const forward = sort.order === 'ASC' ? direction === 'after' : direction === 'before';
+  const op = forward ? 'gt' : 'lt';
+
+  // Positions are compared on (value, id); NULL values sit after every non-null value
+  if (payload.v === null) {
+    const tie: Prisma.ArticleWhereInput = { [column]: null, id: { [op]: payload.id } };
+    return direction === 'after' ? tie : { OR: [{ [column]: { not: null } }, tie] };
+  }
+
+  const value = column === 'publishedAt' ? new Date(payload.v) : payload.v;
+  const branches: Prisma.ArticleWhereInput[] = [
+    { [column]: { [op]: value } },
+    { [column]: value, id: { [op]: payload.id } },
+  ];
+  if (nullable && direction === 'after') {
+    branches.push({ [column]: null });
+  }
+
+  return { OR: branches };
+}
+
+/**
+ * `cursorWhere` as a SQL condition, for raw queries with the Article table
+ * aliased as `a`.
+ */
+export function cursorSql(
+  payload: CursorPayload,
+  sort: ArticleSort,
+  direction: 'after' | 'before'
+): Prisma.Sql {
+  const column = sortColumn(sort);
+  const ref = columnSql(column);
+  const nullable = NULLABLE_COLUMNS.includes(column);
+  const forward = sort.order === 'ASC' ? direction === 'after' : direction === 'before';
+  const op = Prisma.raw(forward ? '>' : '<');
+
+  if (payload.v === null) {
+    const tie = Prisma.sql`(${ref} IS NULL AND a."id" ${op} ${payload.id})`;
+    return direction === 'after' ? tie : Prisma.sql`(${ref} IS NOT NULL OR ${tie})`;
+  }
+
+  const value =
+    column === 'publishedAt'
+      ? Prisma.sql`${new Date(payload.v)}::timestamp`
+      : Prisma.sql`${payload.v}`;
+  const branches = [
+    Prisma.sql`${ref} ${op} ${value}`,
+    Prisma.sql`(${ref} = ${value} AND a."id" ${op} ${payload.id})`,
+  ];
+  if (nullable && direction === 'after') {
+    branches.push(Prisma.sql`${ref} IS NULL`);
+  }
+
+  return Prisma.sql`(${Prisma.join(branches, ' OR ')})`;
+}
+
+function columnSql(column: SortColumn) {
+  return Prisma.raw(`a."${column}"`);
+}
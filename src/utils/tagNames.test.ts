@@ -0,0 +1,23 @@
+import { displayTagName, normalizeTagName } from './tagNames';
+
+describe('normalizeTagName', () => {
+  it('gives spellings of the same tag one key', () => {
+    for (const name of ['AI', ' ai ', 'Ａｉ', 'Ai']) {
+      expect(normalizeTagName(name)).toBe('ai');
+    }
+  });
+
+  it('collapses inner whitespace', () => {
+    expect(normalizeTagName('Machine \t Learning')).toBe('machine learning');
+  });
+
+  it('is empty for blank names', () => {
+    expect(normalizeTagName('   ')).toBe('');
+  });
+});
+
+describe('displayTagName', () => {
+  it('keeps the casing as entered', () => {
+    expect(displayTagName('  Machine   Learning ')).toBe('Machine Learning');
+  });
+});
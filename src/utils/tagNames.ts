@@ -0,0 +1,14 @@
+// src/utils/tagNames.ts
+
+/**
+ * Lookup key for a tag name: "AI", " ai " and "Ａｉ" all become "ai".
+ * Tags, aliases and tag filters are matched on this key.
+ */
+export function normalizeTagName(name: string): string {
+  return displayTagName(name).toLowerCase();
+}
+
+// Name as shown to readers: the casing as first entered, tidied up
+export function displayTagName(name: string): string {
+  return name.normalize('NFKC').replace(/\s+/g, ' ').trim();
+}
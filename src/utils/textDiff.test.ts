@@ -0,0 +1,44 @@
+import { DiffSegment, diffText } from './textDiff';
+
+function side(segments: DiffSegment[], skip: 'INSERT' | 'DELETE') {
+  return segments
+    .filter((segment) => segment.op !== skip)
+    .map((segment) => segment.text)
+    .join('');
+}
+
+describe('diffText', () => {
+  it('marks changed words between unchanged text', () => {
+    expect(diffText('the quick brown fox', 'the slow brown fox')).toEqual([
+      { op: 'EQUAL', text: 'the ' },
+      { op: 'DELETE', text: 'quick' },
+      { op: 'INSERT', text: 'slow' },
+      { op: 'EQUAL', text: ' brown fox' },
+    ]);
+  });
+
+  it('reproduces both texts from its segments', () => {
+    const before = 'Markets fell sharply on Monday.\n\nAnalysts blamed rising rates.';
+    const after = 'Markets fell on Monday after a rally.\n\nAnalysts  blamed rates.';
+    const segments = diffText(before, after);
+    expect(side(segments, 'INSERT')).toBe(before);
+    expect(side(segments, 'DELETE')).toBe(after);
+  });
+
+  it('handles identical and empty texts', () => {
+    expect(diffText('same', 'same')).toEqual([{ op: 'EQUAL', text: 'same' }]);
+    expect(diffText('', '')).toEqual([]);
+    expect(diffText('', 'new text')).toEqual([{ op: 'INSERT', text: 'new text' }]);
+    expect(diffText('old text', '')).toEqual([{ op: 'DELETE', text: 'old text' }]);
+  });
+
+  it('treats texts differing in too many places as rewritten', () => {
+    const before = Array.from({ length: 3000 }, (_, i) => `a${i}`).join(' ');
+    const after = Array.from({ length: 3000 }, (_, i) => `b${i}`).join(' ');
+    const segments = diffText(before, after);
+    expect(segments).toEqual([
+      { op: 'DELETE', text: before },
+      { op: 'INSERT', text: after },
+    ]);
+  });
+});
@@ -0,0 +1,128 @@
+// src/utils/textDiff.ts
+
+export type DiffOp = 'EQUAL' | 'INSERT' | 'DELETE';
+
+export interface DiffSegment {
+  op: DiffOp;
+  text: string;
+}
+
+// Above this many edits the texts are treated as fully rewritten
+const MAX_EDITS = 2000;
+
+/**
+ * Word-level diff (Myers' algorithm) between two texts. Whitespace is kept
+ * as its own token, so concatenating EQUAL + DELETE segments yields `before`
+ * and EQUAL + INSERT segments yields `after`.
+ */
+export function diffText(before: string, after: string): DiffSegment[] {
+  if (before === after) return before ? [{ op: 'EQUAL', text: before }] : [];
+
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  // Common prefix and suffix are cheap to strip and usually most of the text
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let end = 0;
+  while (
+    end < a.length - start &&
+    end < b.length - start &&
+    a[a.length - 1 - end] === b[b.length - 1 - end]
+  ) {
+    end++;
+  }
+
+  const middle = myers(a.slice(start, a.length - end), b.slice(start, b.length - end)) ?? [
+    { op: 'DELETE', text: a.slice(start, a.length - end).join('') },
+    { op: 'INSERT', text: b.slice(start, b.length - end).join('') },
+  ];
+
+  return merge([
+    { op: 'EQUAL', text: a.slice(0, start).join('') },
+    ...middle,
+    { op: 'EQUAL', text: a.slice(a.length - end).join('') },
+  ]);
+}
+
+function tokenize(text: string): string[] {
+  return text.match(/\s+|[^\s]+/g) ?? [];
+}
+
+// Returns null when the texts differ by more than MAX_EDITS tokens
+function myers(a: string[], b: string[]): DiffSegment[] | null {
+  const n = a.length;
+  const m = b.length;
+  // trace[d][k + d] is the furthest x reached on diagonal k with d edits
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= Math.min(n + m, MAX_EDITS); d++) {
+    const prev = trace[d - 1];
+    const current = new Int32Array(2 * d + 1);
+
+    for (let k = -d; k <= d; k += 2) {
+      let x: number;
+      if (d === 0) x = 0;
+      else if (k === -d || (k !== d && prev[k - 1 + d - 1] < prev[k + 1 + d - 1])) {
+        x = prev[k + 1 + d - 1];
+      } else {
+        x = prev[k - 1 + d - 1] + 1;
+      }
+
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      current[k + d] = x;
+
+      if (x >= n && y >= m) {
+        trace.push(current);
+        return backtrack(trace, a, b);
+      }
+    }
+
+    trace.push(current);
+  }
+
+  return null;
+}
+
+function backtrack(trace: Int32Array[], a: string[], b: string[]): DiffSegment[] {
+  const segments: DiffSegment[] = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = trace.length - 1; d > 0; d--) {
+    const prev = trace[d - 1];
+    const k = x - y;
+    const down = k === -d || (k !== d && prev[k - 1 + d - 1] < prev[k + 1 + d - 1]);
+    const prevK = down ? k + 1 : k - 1;
+    const prevX = prev[prevK + d - 1];
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY + (down ? 1 : 0)) {
+      segments.push({ op: 'EQUAL', text: a[--x] });
+      y--;
+    }
+    if (down) segments.push({ op: 'INSERT', text: b[--y] });
+    else segments.push({ op: 'DELETE', text: a[--x] });
+  }
+
+  while (x > 0) {
+    segments.push({ op: 'EQUAL', text: a[--x] });
+  }
+
+  return segments.reverse();
+}
+
+function merge(segments: DiffSegment[]): DiffSegment[] {
+  const merged: DiffSegment[] = [];
+  for (const segment of segments) {
+    if (!segment.text) continue;
+    const last = merged[merged.length - 1];
+    if (last?.op === segment.op) last.text += segment.text;
+    else merged.push({ ...segment });
+  }
+  return merged;
+}
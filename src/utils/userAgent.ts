@@ -0,0 +1,61 @@
+// src/utils/userAgent.ts
+import { UserAgentClass } from '@prisma/client';
+
+// Crawlers, link previewers, monitors and HTTP libraries. Views from these are
+// not counted.
+const BOT_PATTERN = new RegExp(
+  [
+    'bot\\b',
+    'crawl',
+    'spider',
+    'slurp',
+    'archiver',
+    'facebookexternalhit',
+    'embedly',
+    'preview',
+    'headless',
+    'lighthouse',
+    'pingdom',
+    'uptime',
+    'monitor',
+    'curl/',
+    'wget/',
+    'python-requests',
+    'python-urllib',
+    'go-http-client',
+    'okhttp',
+    'axios/',
+    'node-fetch',
+    'undici',
+    'java/',
+    'libwww',
+    'httpclient',
+  ].join('|'),
+  'i'
+);
+
+/**
+ * Whether a request comes from automated software rather than a reader.
+ * Requests without a user agent count as automated.
+ */
+export function isBot(userAgent: string | null | undefined): boolean {
+  return !userAgent?.trim() || BOT_PATTERN.test(userAgent);
+}
+
+/**
+ * The kind of device a browser's user agent describes. Only meant for
+ * aggregate reporting, so anything unrecognized is OTHER.
+ */
+export function classifyUserAgent(userAgent: string | null | undefined): UserAgentClass {
+  if (!userAgent) return UserAgentClass.OTHER;
+  if (/ipad|tablet|kindle|silk|playbook|android(?!.*mobile)/i.test(userAgent)) {
+    return UserAgentClass.TABLET;
+  }
+  if (/mobi|iphone|ipod|android|blackberry|opera mini|iemobile/i.test(userAgent)) {
+    return UserAgentClass.MOBILE;
+  }
+  if (/windows nt|macintosh|mac os x|x11|linux|cros/i.test(userAgent)) {
+    return UserAgentClass.DESKTOP;
+  }
+  return UserAgentClass.OTHER;
+}